@@ -26,6 +26,18 @@ const router = createRouter({
       name: 'Preview',
       component: () => import('@/views/Preview.vue'),
       meta: { title: '预览模板' }
+    },
+    {
+      path: '/kiosk/:id',
+      name: 'Kiosk',
+      component: () => import('@/views/Preview.vue'),
+      meta: { title: '扫码打印' }
+    },
+    {
+      path: '/data',
+      name: 'DataManager',
+      component: () => import('@/views/DataManager.vue'),
+      meta: { title: '数据管理' }
     }
   ]
 })
@@ -1,18 +1,59 @@
 import { defineStore } from 'pinia'
-import { ref, computed } from 'vue'
-import type { DataSource, DataColumn, MergedRange } from '@/types'
-import * as XLSX from 'xlsx'
+import { ref, computed, inject, toRaw } from 'vue'
+import type { Ref } from 'vue'
+import type {
+  DataSource,
+  DataColumn,
+  DataColumnType,
+  DerivedColumn,
+  ExcelImportOptions,
+  MergedRange,
+  Template,
+  TemplateDataSource,
+  TemplateField,
+  ValueFormat
+} from '@/types'
 import {
+  ROW_CHUNK_SIZE,
   saveDataSource,
-  getAllDataSources,
+  saveDataSourceMeta,
+  getAllDataSourceMetas,
+  getRowChunks,
   deleteDataSource as deleteFromDB
 } from '@/utils/indexedDB'
+import type { DataSourceMeta } from '@/utils/indexedDB'
+import { decodeText, parseJsonColumns } from '@/utils/dataFile'
+import { getRowCount } from '@/utils/dataGrid'
+import { createExcelImportSession } from '@/utils/excelImport'
+import type { ExcelImportSession } from '@/utils/excelImport'
+import type { ParseResult } from '@/utils/excelParser'
+import { formatValue, inferColumnType } from '@/utils/format'
+import { computeDerivedColumns, isLookupDependent } from '@/utils/derivedColumn'
+import { appendRecord } from '@/utils/formFill'
+import type { FormRecord } from '@/utils/formFill'
+import {
+  getTemplateSource,
+  normalizeTemplateDataSources,
+  resolveSourceFile
+} from '@/utils/templateDataSource'
+import type { DataSourceReader, DataSourceReaderOptions } from '@/utils/templateDataSource'
 
 export const useDataSourceStore = defineStore('datasource', () => {
   const dataSources = ref<DataSource[]>([])
   const currentDataSource = ref<DataSource | null>(null)
   const isLoading = ref(false)
 
+  // 各数据源已读取到内存的数据块序号，未读取的行在列数据中为空位
+  const loadedChunks = new Map<string, Set<number>>()
+
+  // 手工填写中尚未提交的记录：读取该数据文件时代替已保存的数据，只保存在本页面的内存中
+  const draftRecords = ref<Record<string, DataSource>>({})
+
+  // 其他窗口（如数据管理）保存或删除数据源后重新加载；本窗口写入元数据或数据行后都要通知
+  const updateChannel =
+    typeof BroadcastChannel === 'undefined' ? null : new BroadcastChannel('datasource-updates')
+  updateChannel?.addEventListener('message', () => initFromDB())
+
   const columnOptions = computed(() => {
     if (!currentDataSource.value) return []
     return currentDataSource.value.columns.map(col => ({
@@ -21,24 +62,40 @@ export const useDataSourceStore = defineStore('datasource', () => {
     }))
   })
 
-  // 初始化：从 IndexedDB 加载所有数据源
+  // 元数据转为数据源，列数据的长度为总行数，行数据按需读取
+  function fromMeta({ rowCount, ...meta }: DataSourceMeta): DataSource {
+    return {
+      ...meta,
+      columns: meta.columns.map(column => ({ ...column, data: new Array(rowCount) }))
+    }
+  }
+
+  function getChunkCount(dataSource: DataSource): number {
+    return Math.ceil(
+      Math.max(0, ...dataSource.columns.map(col => col.data.length)) / ROW_CHUNK_SIZE
+    )
+  }
+
+  // 内存中已有全部数据行的数据源，如刚导入或保存的数据源
+  function markLoaded(dataSource: DataSource) {
+    const count = getChunkCount(dataSource)
+    loadedChunks.set(dataSource.fileName, new Set(Array.from({ length: count }, (_, i) => i)))
+  }
+
+  // 初始化：从 IndexedDB 加载所有数据源的元数据
   async function initFromDB() {
     try {
       isLoading.value = true
-      const sources = await getAllDataSources()
+      const sources = (await getAllDataSourceMetas()).map(fromMeta)
+      loadedChunks.clear()
       dataSources.value = sources
-      if (sources.length > 0) {
-        const currentFileName = currentDataSource.value?.fileName
-        const stillExists = currentFileName
-          ? sources.some(ds => ds.fileName === currentFileName)
-          : false
-        if (!currentDataSource.value || !stillExists) {
-          currentDataSource.value = sources[0]
-        }
-      } else {
-        currentDataSource.value = null
-      }
-      console.log(`从 IndexedDB 加载了 ${sources.length} 个数据源`)
+      // 当前数据源换成重新加载的对象，仍指向旧对象时会读到修改前的数据行
+      const currentFileName = currentDataSource.value?.fileName
+      currentDataSource.value =
+        dataSources.value.find(ds => ds.fileName === currentFileName) ??
+        dataSources.value[0] ??
+        null
+      console.log(`从 IndexedDB 加载了 ${sources.length} 个数据源的元数据`)
     } catch (error) {
       console.error('从 IndexedDB 加载数据源失败:', error)
     } finally {
@@ -46,258 +103,202 @@ export const useDataSourceStore = defineStore('datasource', () => {
     }
   }
 
-  // 格式化单元格值，处理日期等特殊类型
-  function formatCellValue(cell: XLSX.CellObject | undefined): string | number {
-    if (!cell) return ''
-
-    // 处理日期类型
-    // Excel 日期以数字存储（距离1900-01-01的天数）
-    // t='d' 表示日期，t='n' 可能也是日期（如果有日期格式）
-    if (cell.t === 'd' && cell.v instanceof Date) {
-      // 直接是日期对象
-      return formatDate(cell.v)
-    }
+  function readFileBuffer(file: File): Promise<ArrayBuffer> {
+    return new Promise((resolve, reject) => {
+      const reader = new FileReader()
 
-    if (cell.t === 'n' && typeof cell.v === 'number') {
-      // 检查是否是日期格式（通过格式字符串判断）
-      const fmt = cell.z ? String(cell.z) : ''
-      if (isDateFormat(fmt) || (cell.v > 25569 && cell.v < 47483)) {
-        // 25569 是 1970-01-01 在 Excel 中的数值
-        // 47483 是 2030-01-01 在 Excel 中的数值
-        // 如果数值在这个合理范围内，且看起来像日期序号，尝试转换
-        if (fmt && isDateFormat(fmt)) {
-          const date = XLSX.SSF.parse_date_code(cell.v)
-          if (date) {
-            return `${date.y}-${String(date.m).padStart(2, '0')}-${String(date.d).padStart(2, '0')}`
-          }
+      reader.onload = e => {
+        const data = e.target?.result
+        if (!data || typeof data === 'string') {
+          reject(new Error('文件读取失败'))
+          return
         }
+        resolve(data)
       }
-    }
 
-    // 如果有格式化后的文本 w，优先使用（保留 Excel 中显示的格式）
-    if (cell.w !== undefined) {
-      return cell.w
-    }
+      reader.onerror = error => {
+        console.error('文件读取错误:', error)
+        reject(new Error('文件读取失败'))
+      }
 
-    // 处理其他类型
-    const value = cell.v
-    if (value === undefined || value === null) return ''
-    if (typeof value === 'boolean') return value ? '是' : '否'
-    if (typeof value === 'string' || typeof value === 'number') return value
-    if (value instanceof Date) return formatDate(value)
-    return String(value)
+      reader.readAsArrayBuffer(file)
+    })
   }
 
-  // 判断格式字符串是否是日期格式
-  function isDateFormat(fmt: string): boolean {
-    if (!fmt) return false
-    // 常见的日期格式标识
-    const datePatterns = [
-      /y+/i,
-      /m+/i,
-      /d+/i,
-      /h+/i,
-      /s+/i,
-      /\[.*\]/, // 如 [红色]
-      /年/,
-      /月/,
-      /日/
-    ]
-    // 排除纯数字格式
-    if (/^[#0,.%]+$/.test(fmt)) return false
-    return datePatterns.some(p => p.test(fmt))
+  /**
+   * 默认导入设置：沿用同名数据源上次的设置，否则取第一个工作表、首行为表头
+   */
+  function getDefaultImportOptions(sheetNames: string[], fileName: string): ExcelImportOptions {
+    const previous = dataSources.value.find(ds => ds.fileName === fileName)
+    if (previous?.sheetName && sheetNames.includes(previous.sheetName)) {
+      const headerRow = previous.headerRow ?? 0
+      const headerRowCount = previous.headerRowCount ?? 1
+      return {
+        sheetName: previous.sheetName,
+        headerRow,
+        headerRowCount,
+        dataStartRow: previous.dataStartRow ?? headerRow + headerRowCount
+      }
+    }
+    return { sheetName: sheetNames[0], headerRow: 0, headerRowCount: 1, dataStartRow: 1 }
   }
 
-  // 格式化日期为字符串
-  function formatDate(date: Date): string {
-    const year = date.getFullYear()
-    const month = String(date.getMonth() + 1).padStart(2, '0')
-    const day = String(date.getDate()).padStart(2, '0')
-    return `${year}-${month}-${day}`
+  function findDataSource(fileName: string): DataSource | undefined {
+    return dataSources.value.find(ds => ds.fileName === fileName)
   }
 
-  // 检查某行是否为空行（所有单元格都为空或只有空格）
-  function isEmptyRow(
-    sheet: XLSX.WorkSheet,
-    row: number,
-    startCol: number,
-    endCol: number
-  ): boolean {
-    for (let col = startCol; col <= endCol; col++) {
-      const cellAddress = XLSX.utils.encode_cell({ r: row, c: col })
-      const cell = sheet[cellAddress]
-      if (cell && cell.v !== undefined && cell.v !== null) {
-        const value = String(cell.v).trim()
-        if (value !== '') {
-          return false
-        }
-      }
+  /**
+   * 读取第 start 行到 end 行（不含）所在的数据块，已读取的块不再重复读取；
+   * 返回是否已全部读取，数据源不存在时为 false
+   */
+  async function loadRows(fileName: string, start = 0, end = Infinity): Promise<boolean> {
+    const dataSource = findDataSource(fileName)
+    if (!dataSource) return false
+    const loaded = loadedChunks.get(fileName) ?? new Set<number>()
+    const last = Math.min(getChunkCount(dataSource), Math.ceil(end / ROW_CHUNK_SIZE)) - 1
+    const missing: number[] = []
+    for (let index = Math.floor(Math.max(start, 0) / ROW_CHUNK_SIZE); index <= last; index++) {
+      if (!loaded.has(index)) missing.push(index)
     }
+    if (missing.length === 0) return true
+
+    const chunks = await getRowChunks(fileName, missing[0], missing[missing.length - 1])
+    // 读取期间数据源被替换（重新导入或其他窗口保存）时放弃结果，按新的数据源重新读取
+    if (findDataSource(fileName) !== dataSource) return loadRows(fileName, start, end)
+    const columns = dataSource.columns.map(column => toRaw(column.data).slice())
+    chunks.forEach(chunk => {
+      if (loaded.has(chunk.index)) return
+      const offset = chunk.index * ROW_CHUNK_SIZE
+      chunk.columns.forEach((values, col) => {
+        values.forEach((value, row) => {
+          if (columns[col]) columns[col][offset + row] = value
+        })
+      })
+      loaded.add(chunk.index)
+    })
+    loadedChunks.set(fileName, loaded)
+    dataSource.columns.forEach((column, col) => (column.data = columns[col]))
     return true
   }
 
-  // 智能检测实际数据范围，找到最后一个非空行
-  function detectActualRange(sheet: XLSX.WorkSheet, range: XLSX.Range): number {
-    // 从最后一行向前扫描，找到第一个非空行
-    for (let row = range.e.r; row >= range.s.r + 1; row--) {
-      if (!isEmptyRow(sheet, row, range.s.c, range.e.c)) {
-        return row
-      }
-    }
-    return range.s.r // 只有表头
+  function loadDataSource(fileName: string) {
+    return loadRows(fileName)
   }
 
-  function parseExcel(file: File): Promise<DataSource> {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader()
+  /**
+   * 读取模板打印时用到的行：批量打印按指定范围打印、没有筛选、排序、分组与主从关联时，
+   * 打印数据源只读取第一块（编辑器画布显示第一行）与打印范围内的行，其余数据源读取全部行；
+   * 未声明模板数据源的旧模板读取当前数据源
+   */
+  async function loadTemplateRows(
+    template: Pick<Template, 'dataSources' | 'batchPrint' | 'relations'>
+  ) {
+    const { batchPrint } = template
+    const files = normalizeTemplateDataSources(template.dataSources, batchPrint?.dataSourceFile)
+      .map(source => source.fileName)
+      .filter(Boolean)
+    if (files.length === 0 && currentDataSource.value) files.push(currentDataSource.value.fileName)
+    const printFile = batchPrint?.dataSourceFile
+    const rangeOnly =
+      batchPrint?.enabled &&
+      batchPrint.printRange === 'range' &&
+      batchPrint.rangeStart !== undefined &&
+      batchPrint.rangeEnd !== undefined &&
+      !batchPrint.filters?.length &&
+      !batchPrint.sorts?.length &&
+      !batchPrint.groupBy &&
+      !template.relations?.length
+    await Promise.all(
+      [...new Set([...files, printFile])].map(async fileName => {
+        if (!fileName) return
+        if (fileName !== printFile || !rangeOnly) return loadDataSource(fileName)
+        await loadRows(fileName, 0, ROW_CHUNK_SIZE)
+        await loadRows(fileName, batchPrint.rangeStart, batchPrint.rangeEnd! + 1)
+      })
+    )
+  }
 
-      reader.onload = e => {
-        try {
-          const data = e.target?.result
-          if (!data) {
-            reject(new Error('文件读取失败'))
-            return
-          }
-
-          console.log('开始解析 Excel 文件:', file.name)
-          // 使用 cellDates 选项让 xlsx 自动解析日期
-          const workbook = XLSX.read(data, {
-            type: 'array',
-            cellDates: true, // 启用日期解析
-            cellNF: true, // 保留数字格式
-            cellText: true // 生成格式化文本
-          })
-          console.log('工作表列表:', workbook.SheetNames)
-
-          const sheetName = workbook.SheetNames[0]
-          const sheet = workbook.Sheets[sheetName]
-
-          if (!sheet['!ref']) {
-            reject(new Error('Excel 文件为空'))
-            return
-          }
-
-          const range = XLSX.utils.decode_range(sheet['!ref'])
-          const merges = sheet['!merges'] || []
-
-          // 智能检测实际数据的最后一行
-          const actualEndRow = detectActualRange(sheet, range)
-
-          console.log(
-            '定义范围:',
-            sheet['!ref'],
-            '实际数据行:',
-            actualEndRow + 1,
-            '合并单元格:',
-            merges.length
-          )
-
-          const columns: DataColumn[] = []
-
-          // 获取列标题（第一行）
-          for (let col = range.s.c; col <= range.e.c; col++) {
-            const cellAddress = XLSX.utils.encode_cell({ r: 0, c: col })
-            const cell = sheet[cellAddress]
-            const columnName = cell ? String(formatCellValue(cell)) : `列${col + 1}`
-
-            const columnData: (string | number)[] = []
-            const mergedRanges: MergedRange[] = []
-
-            // 解析该列数据（从第二行开始，到实际数据结束行）
-            for (let row = 1; row <= actualEndRow; row++) {
-              const dataCellAddress = XLSX.utils.encode_cell({ r: row, c: col })
-              const dataCell = sheet[dataCellAddress]
-
-              // 检查是否在合并单元格范围内
-              let mergedValue: string | number | null = null
-              for (const merge of merges) {
-                if (col >= merge.s.c && col <= merge.e.c && row >= merge.s.r && row <= merge.e.r) {
-                  // 获取合并单元格的起始值
-                  const mergeStartCell =
-                    sheet[XLSX.utils.encode_cell({ r: merge.s.r, c: merge.s.c })]
-                  mergedValue = formatCellValue(mergeStartCell)
-
-                  // 记录合并范围（仅记录该列的合并信息）
-                  if (col === merge.s.c) {
-                    const existingRange = mergedRanges.find(
-                      r => r.startRow === merge.s.r - 1 && r.endRow === merge.e.r - 1
-                    )
-                    if (!existingRange) {
-                      mergedRanges.push({
-                        startRow: merge.s.r - 1,
-                        endRow: merge.e.r - 1,
-                        value: mergedValue ?? ''
-                      })
-                    }
-                  }
-                  break
-                }
-              }
-
-              if (mergedValue !== null) {
-                columnData.push(mergedValue)
-              } else {
-                columnData.push(formatCellValue(dataCell))
-              }
-            }
-
-            columns.push({
-              name: columnName,
-              data: columnData,
-              mergedRanges: mergedRanges.length > 0 ? mergedRanges : undefined
-            })
-          }
-
-          const dataSource: DataSource = {
-            fileName: file.name,
-            columns
-          }
-
-          console.log(
-            'Excel 解析完成，列数:',
-            columns.length,
-            '实际数据行数:',
-            columns[0]?.data.length || 0
-          )
-          resolve(dataSource)
-        } catch (error) {
-          console.error('Excel 解析错误:', error)
-          reject(error)
-        }
-      }
+  // 计算派生列前读取数据源与其查找列引用的数据源的全部行
+  async function withDerivedColumns(dataSource: DataSource): Promise<DataSource> {
+    if (!dataSource.derivedColumns?.length) return dataSource
+    await Promise.all(
+      dataSource.derivedColumns.map(definition =>
+        definition.type === 'lookup' ? loadDataSource(definition.lookupFile) : undefined
+      )
+    )
+    return computeDerivedColumns(dataSource, findDataSource)
+  }
 
-      reader.onerror = error => {
-        console.error('文件读取错误:', error)
-        reject(new Error('文件读取失败'))
+  /**
+   * 重新计算查找了该数据文件的数据源；依次向下传递，已经计算过的数据源不再重复计算
+   */
+  async function refreshLookupDependents(fileName: string, visited = new Set([fileName])) {
+    const dependents = dataSources.value.filter(
+      dataSource => !visited.has(dataSource.fileName) && isLookupDependent(dataSource, fileName)
+    )
+    for (const { fileName: dependent } of dependents) {
+      if (visited.has(dependent)) continue
+      visited.add(dependent)
+      // 读取期间数据源可能被替换，按文件名取读取完成的数据源
+      if (!(await loadDataSource(dependent))) continue
+      const dataSource = findDataSource(dependent)
+      if (!dataSource) continue
+      const updated = await withDerivedColumns(dataSource)
+      await saveDataSource(updated)
+      markLoaded(updated)
+      const index = dataSources.value.findIndex(ds => ds.fileName === dependent)
+      if (index !== -1) dataSources.value[index] = updated
+      if (currentDataSource.value?.fileName === updated.fileName) {
+        currentDataSource.value = updated
       }
+      updateChannel?.postMessage(updated.fileName)
+      await refreshLookupDependents(updated.fileName, visited)
+    }
+  }
 
-      reader.readAsArrayBuffer(file)
+  // 保存数据源，同名文件覆盖原有数据，沿用同名列上用户指定的类型与派生列定义
+  async function addDataSource(source: DataSource) {
+    const previous = dataSources.value.find(ds => ds.fileName === source.fileName)
+    const dataSource = await withDerivedColumns({
+      ...source,
+      derivedColumns: source.derivedColumns ?? previous?.derivedColumns
+    })
+    previous?.columns.forEach(column => {
+      const target = dataSource.columns.find(col => col.name === column.name)
+      if (target && column.typeOverride) target.typeOverride = column.typeOverride
     })
+
+    // 保存到 IndexedDB（以文件名为 key，实现数据隔离）
+    await saveDataSource(dataSource)
+    markLoaded(dataSource)
+    console.log('数据已保存到 IndexedDB:', dataSource.fileName)
+
+    // 更新内存中的数据
+    const existingIndex = dataSources.value.findIndex(ds => ds.fileName === dataSource.fileName)
+    if (existingIndex !== -1) {
+      dataSources.value[existingIndex] = dataSource
+    } else {
+      dataSources.value.push(dataSource)
+    }
+    currentDataSource.value = dataSource
+    updateChannel?.postMessage(dataSource.fileName)
+    await refreshLookupDependents(dataSource.fileName)
+    return dataSource
   }
 
-  async function uploadExcel(file: File) {
+  /**
+   * 按导入设置在 Worker 中解析已打开的文件并保存为数据源，同时返回解析中出现问题的行
+   * @param onProgress 已解析的行数与总行数
+   */
+  async function importWorkbook(
+    session: ExcelImportSession,
+    options: ExcelImportOptions,
+    onProgress?: (done: number, total: number) => void
+  ): Promise<ParseResult> {
     try {
       isLoading.value = true
-      console.log('开始上传文件:', file.name, '大小:', file.size)
-
-      // 检查是否已存在同名文件
-      const existingIndex = dataSources.value.findIndex(ds => ds.fileName === file.name)
-
-      const dataSource = await parseExcel(file)
-
-      // 保存到 IndexedDB（以文件名为 key，实现数据隔离）
-      await saveDataSource(dataSource)
-      console.log('数据已保存到 IndexedDB:', file.name)
-
-      // 更新内存中的数据
-      if (existingIndex !== -1) {
-        dataSources.value[existingIndex] = dataSource
-      } else {
-        dataSources.value.push(dataSource)
-      }
-      currentDataSource.value = dataSource
-
-      return dataSource
+      const { dataSource, issues } = await session.parse(options, onProgress)
+      return { dataSource: await addDataSource(dataSource), issues }
     } catch (error) {
       console.error('Excel 上传处理失败:', error)
       throw error
@@ -306,19 +307,227 @@ export const useDataSourceStore = defineStore('datasource', () => {
     }
   }
 
+  /**
+   * 导入 JSON 对象数组，嵌套对象展开为以点号连接的列名
+   */
+  async function uploadJson(file: File) {
+    try {
+      isLoading.value = true
+      console.log('开始解析 JSON 文件:', file.name)
+      const { text } = decodeText(await readFileBuffer(file))
+      return await addDataSource({
+        fileName: file.name,
+        columns: parseJsonColumns(text).map(column => ({
+          ...column,
+          type: inferColumnType(column.data)
+        }))
+      })
+    } catch (error) {
+      console.error('JSON 上传处理失败:', error)
+      throw error
+    } finally {
+      isLoading.value = false
+    }
+  }
+
+  /**
+   * 上传 Excel：未指定导入设置时沿用同名数据源上次的设置
+   */
+  async function uploadExcel(file: File, options?: ExcelImportOptions) {
+    console.log('开始上传文件:', file.name, '大小:', file.size)
+    const session = createExcelImportSession(file)
+    try {
+      const sheetNames = await session.open()
+      const { dataSource } = await importWorkbook(
+        session,
+        options ?? getDefaultImportOptions(sheetNames, file.name)
+      )
+      return dataSource
+    } finally {
+      session.cancel()
+    }
+  }
+
   function setCurrentDataSource(fileName: string) {
     currentDataSource.value = dataSources.value.find(ds => ds.fileName === fileName) || null
   }
 
-  function getColumnData(columnName: string): (string | number)[] {
-    if (!currentDataSource.value) return []
-    const column = currentDataSource.value.columns.find(col => col.name === columnName)
-    return column ? column.data : []
+  /**
+   * 创建读取指定数据文件的接口
+   * @param fileName 数据文件名；undefined 表示当前数据源，null 表示不读取任何数据
+   * @param options 模板字段与字段映射：按字段名读取时读取映射到的数据列
+   */
+  function createReader(
+    fileName?: string | null,
+    options: DataSourceReaderOptions = {}
+  ): DataSourceReader {
+    const { mapping, fields = [] } = options
+    function getDataSource(): DataSource | null {
+      const draft = draftRecords.value[fileName ?? currentDataSource.value?.fileName ?? '']
+      if (fileName !== null && draft) return draft
+      if (fileName === undefined) return currentDataSource.value
+      if (fileName === null) return null
+      return dataSources.value.find(ds => ds.fileName === fileName) ?? null
+    }
+
+    function getColumn(columnName: string): DataColumn | undefined {
+      const name = mapping?.[columnName] || columnName
+      return getDataSource()?.columns.find(col => col.name === name)
+    }
+
+    function hasColumn(columnName: string): boolean {
+      return !!getColumn(columnName)
+    }
+
+    function getFieldType(columnName: string): DataColumnType | undefined {
+      return fields.find(field => field.name === columnName)?.type
+    }
+
+    function getColumnNames(): string[] {
+      const names = fields.map(field => field.name)
+      const columns = getDataSource()?.columns ?? []
+      return [...names, ...columns.map(col => col.name).filter(name => !names.includes(name))]
+    }
+
+    function getColumnData(columnName: string): (string | number)[] {
+      return getColumn(columnName)?.data ?? []
+    }
+
+    function getMergedRanges(columnName: string): MergedRange[] {
+      return getColumn(columnName)?.mergedRanges ?? []
+    }
+
+    function getColumnValue(columnName: string, rowIndex: number): string | number {
+      const data = getColumnData(columnName)
+      return data[rowIndex] ?? ''
+    }
+
+    // 列的实际类型：用户指定优先于字段类型，其次为推断结果
+    function getColumnType(columnName: string): DataColumnType {
+      const column = getColumn(columnName)
+      return column?.typeOverride ?? getFieldType(columnName) ?? column?.type ?? 'text'
+    }
+
+    /**
+     * 按绑定格式显示列中的值；用户将列指定为文本时不做格式化
+     */
+    function formatColumnValue(
+      columnName: string,
+      value: string | number | undefined,
+      format?: ValueFormat
+    ): string {
+      const column = getColumn(columnName)
+      if (column?.typeOverride === 'text') return String(value ?? '')
+      const type = column?.typeOverride ?? getFieldType(columnName) ?? column?.type
+      return formatValue(value, format, type)
+    }
+
+    function getFormattedColumnValue(
+      columnName: string,
+      rowIndex: number,
+      format?: ValueFormat
+    ): string {
+      return formatColumnValue(columnName, getColumnValue(columnName, rowIndex), format)
+    }
+
+    return {
+      getDataSource,
+      getColumnNames,
+      hasColumn,
+      getColumnData,
+      getMergedRanges,
+      getColumnValue,
+      getColumnType,
+      formatColumnValue,
+      getFormattedColumnValue
+    }
+  }
+
+  /**
+   * 创建读取模板数据源的接口，应用模板字段与该数据源的字段映射
+   * @param sourceName 模板数据源名称，含义同 resolveSourceFile
+   */
+  function createSourceReader(
+    template: { dataSources?: TemplateDataSource[]; fields?: TemplateField[] },
+    sourceName?: string
+  ): DataSourceReader {
+    return createReader(resolveSourceFile(template.dataSources, sourceName), {
+      mapping: getTemplateSource(template.dataSources, sourceName)?.mapping,
+      fields: template.fields
+    })
+  }
+
+  // 读取当前数据源，供未声明模板数据源的旧模板与数据源面板使用
+  const {
+    getColumnData,
+    getColumnValue,
+    getColumnType,
+    formatColumnValue,
+    getFormattedColumnValue
+  } = createReader()
+
+  async function setColumnType(fileName: string, columnName: string, type: DataColumnType | null) {
+    const dataSource = dataSources.value.find(ds => ds.fileName === fileName)
+    const column = dataSource?.columns.find(col => col.name === columnName)
+    if (!dataSource || !column) return
+    if (type && type !== column.type) {
+      column.typeOverride = type
+    } else {
+      delete column.typeOverride
+    }
+    await saveDataSourceMeta(dataSource)
+    updateChannel?.postMessage(fileName)
+  }
+
+  /**
+   * 保存在数据管理中编辑过的数据源，派生列随之重新计算；传入的数据源须含全部数据行
+   */
+  async function updateDataSource(source: DataSource) {
+    const dataSource = await withDerivedColumns(source)
+    await saveDataSource(dataSource)
+    markLoaded(dataSource)
+    const index = dataSources.value.findIndex(ds => ds.fileName === dataSource.fileName)
+    if (index !== -1) dataSources.value[index] = dataSource
+    if (currentDataSource.value?.fileName === dataSource.fileName) {
+      currentDataSource.value = dataSource
+    }
+    updateChannel?.postMessage(dataSource.fileName)
+    await refreshLookupDependents(dataSource.fileName)
+    return dataSource
+  }
+
+  /**
+   * 修改数据源的派生列定义并重新计算
+   */
+  async function setDerivedColumns(fileName: string, definitions: DerivedColumn[]) {
+    await loadDataSource(fileName)
+    const dataSource = findDataSource(fileName)
+    if (!dataSource) return
+    await updateDataSource({ ...dataSource, derivedColumns: definitions })
   }
 
-  function getColumnValue(columnName: string, rowIndex: number): string | number {
-    const data = getColumnData(columnName)
-    return data[rowIndex] ?? ''
+  /**
+   * 设置填写中的记录，派生列按已读取的数据计算；传入 null 时恢复读取已保存的数据
+   * @param fileName 记录代替的数据文件，旧模板没有当前数据源时为空字符串
+   */
+  function setDraftRecord(fileName: string, draft: DataSource | null) {
+    if (draft) {
+      draftRecords.value[fileName] = computeDerivedColumns(draft, findDataSource)
+    } else {
+      delete draftRecords.value[fileName]
+    }
+  }
+
+  /**
+   * 把手工填写的记录追加到数据源末尾，数据源不存在时新建；返回新记录的行号
+   */
+  async function addRecord(fileName: string, record: FormRecord): Promise<number> {
+    const loaded = await loadDataSource(fileName)
+    const previous = findDataSource(fileName)
+    if (previous && !loaded) throw new Error(`数据源 ${fileName} 的数据行读取失败`)
+    const dataSource = appendRecord(previous, fileName, record)
+    await (previous ? updateDataSource(dataSource) : addDataSource(dataSource))
+    return getRowCount(dataSource) - 1
   }
 
   async function removeDataSource(fileName: string) {
@@ -326,6 +535,7 @@ export const useDataSourceStore = defineStore('datasource', () => {
       // 从 IndexedDB 删除
       await deleteFromDB(fileName)
       console.log('从 IndexedDB 删除数据源:', fileName)
+      loadedChunks.delete(fileName)
 
       // 从内存中删除
       const index = dataSources.value.findIndex(ds => ds.fileName === fileName)
@@ -335,6 +545,8 @@ export const useDataSourceStore = defineStore('datasource', () => {
           currentDataSource.value = dataSources.value[0] || null
         }
       }
+      updateChannel?.postMessage(fileName)
+      await refreshLookupDependents(fileName)
     } catch (error) {
       console.error('删除数据源失败:', error)
       throw error
@@ -347,10 +559,42 @@ export const useDataSourceStore = defineStore('datasource', () => {
     columnOptions,
     isLoading,
     initFromDB,
+    getDefaultImportOptions,
+    importWorkbook,
     uploadExcel,
+    uploadJson,
     setCurrentDataSource,
+    createReader,
+    createSourceReader,
     getColumnData,
     getColumnValue,
+    getColumnType,
+    formatColumnValue,
+    getFormattedColumnValue,
+    setColumnType,
+    loadRows,
+    loadDataSource,
+    loadTemplateRows,
+    updateDataSource,
+    setDerivedColumns,
+    setDraftRecord,
+    addRecord,
     removeDataSource
   }
 })
+
+/**
+ * 组件绑定数据源的读取接口：按页面提供的模板数据源（templateDataSources）解析数据源名称，
+ * 按模板字段（templateFields）与字段映射读取数据列；编辑器与预览页分别提供各自的模板数据
+ */
+export function useSourceReader(getSourceName: () => string | undefined) {
+  const dataSourceStore = useDataSourceStore()
+  const sources = inject<Ref<TemplateDataSource[] | undefined>>('templateDataSources', ref())
+  const fields = inject<Ref<TemplateField[] | undefined>>('templateFields', ref())
+  return computed(() =>
+    dataSourceStore.createSourceReader(
+      { dataSources: sources.value, fields: fields.value },
+      getSourceName()
+    )
+  )
+}
@@ -2,12 +2,19 @@ import type {
   BatchPrintConfig,
   PaperSize,
   SnapLine,
+  TableAggregate,
   TableCell,
   TableSelection,
   TableWidget,
+  TemplateDataSource,
+  TemplateField,
+  TemplateRelation,
+  ValueFormat,
   Widget
 } from '@/types'
 import { normalizeBatchPrintConfig } from '@/utils/batchPrint'
+import { createTemplateDataSource, normalizeTemplateDataSources } from '@/utils/templateDataSource'
+import { normalizeTemplateFields } from '@/utils/templateField'
 import { getTableInnerSizeMm, getTableOuterBorderMm } from '@/utils/tableSizing'
 import { cloneDeep } from 'lodash-es'
 import { defineStore } from 'pinia'
@@ -20,6 +27,22 @@ interface MasterCell {
   colSpan: number
   content: string
   dataSource?: string
+  format?: ValueFormat
+  aggregate?: TableAggregate
+}
+
+// 插入、删除列后按新列号重排以列号为键的配置（列绑定、列格式），返回 null 表示该列被删除
+function remapColumnRecord<T>(
+  record: Record<number, T> | undefined,
+  getNewCol: (col: number) => number | null
+): Record<number, T> {
+  const result: Record<number, T> = {}
+  Object.keys(record || {}).forEach(key => {
+    const col = Number(key)
+    const newCol = getNewCol(col)
+    if (newCol !== null) result[newCol] = record![col]
+  })
+  return result
 }
 
 function createDefaultCell(): TableCell {
@@ -45,7 +68,9 @@ function extractMasterCells(table: TableWidget): MasterCell[] {
         rowSpan,
         colSpan,
         content: cell.content,
-        dataSource: cell.dataSource
+        dataSource: cell.dataSource,
+        format: cell.format,
+        aggregate: cell.aggregate
       })
     }
   }
@@ -72,6 +97,12 @@ function buildCellsFromMasters(rows: number, cols: number, masters: MasterCell[]
     } else if (cell.dataSource) {
       delete cell.dataSource
     }
+    if (master.format) {
+      cell.format = master.format
+    }
+    if (master.aggregate) {
+      cell.aggregate = master.aggregate
+    }
 
     for (let r = 0; r < availableRowSpan; r++) {
       for (let c = 0; c < availableColSpan; c++) {
@@ -198,6 +229,13 @@ export const useEditorStore = defineStore('editor', () => {
   const scale = ref(1)
   const globalForcePageBreak = ref(false) // 全局强制分页设置
 
+  // 模板字段，组件绑定字段名，由各数据源的字段映射对应到数据列
+  const fields = ref<TemplateField[]>([])
+  // 模板使用的数据源，组件按名称引用
+  const dataSources = ref<TemplateDataSource[]>([])
+  // 数据源之间的主从关联
+  const relations = ref<TemplateRelation[]>([])
+
   // 批量打印配置：用于将模板与数据源结合，生成 N 份打印内容
   const batchPrint = ref<BatchPrintConfig>(normalizeBatchPrintConfig())
 
@@ -362,12 +400,127 @@ export const useEditorStore = defineStore('editor', () => {
     batchPrint.value = normalizeBatchPrintConfig()
   }
 
+  /**
+   * 设置模板数据源，旧模板没有声明时使用批量打印的数据文件
+   */
+  function setDataSources(sources?: TemplateDataSource[] | null, batchPrintFile?: string) {
+    dataSources.value = normalizeTemplateDataSources(sources, batchPrintFile)
+  }
+
+  /**
+   * 声明使用数据文件，已声明时返回原有的数据源
+   */
+  function addDataSource(fileName: string): TemplateDataSource {
+    const existing = dataSources.value.find(source => source.fileName === fileName)
+    if (existing) return existing
+    const source = createTemplateDataSource(fileName, dataSources.value)
+    dataSources.value = [...dataSources.value, source]
+    return source
+  }
+
+  /**
+   * 修改模板数据源，重命名时同步更新组件上的引用
+   */
+  function updateDataSource(name: string, updates: Partial<TemplateDataSource>) {
+    const newName = updates.name?.trim() ?? name
+    if (!newName) throw new Error('数据源名称不能为空')
+    if (newName !== name && dataSources.value.some(source => source.name === newName)) {
+      throw new Error(`数据源名称 "${newName}" 已存在`)
+    }
+    dataSources.value = dataSources.value.map(source =>
+      source.name === name ? { ...source, ...updates, name: newName } : source
+    )
+    if (newName === name) return
+    relations.value = relations.value.map(relation => ({
+      ...relation,
+      master: relation.master === name ? newName : relation.master,
+      detail: relation.detail === name ? newName : relation.detail
+    }))
+    widgets.value = widgets.value.map(widget =>
+      'source' in widget && widget.source === name ? { ...widget, source: newName } : widget
+    )
+    saveHistory()
+  }
+
+  /**
+   * 移除模板数据源，仍引用该名称的组件不再读取数据
+   */
+  function removeDataSource(name: string) {
+    dataSources.value = dataSources.value.filter(source => source.name !== name)
+  }
+
+  function setFields(list?: TemplateField[] | null) {
+    fields.value = normalizeTemplateFields(cloneDeep(list))
+  }
+
+  function addField(field: TemplateField) {
+    const name = field.name.trim()
+    if (!name) throw new Error('字段名称不能为空')
+    if (fields.value.some(item => item.name === name)) {
+      throw new Error(`字段 "${name}" 已存在`)
+    }
+    fields.value = [...fields.value, { ...field, name }]
+  }
+
+  function updateField(name: string, updates: Omit<Partial<TemplateField>, 'name'>) {
+    fields.value = fields.value.map(field =>
+      field.name === name ? { ...field, ...updates } : field
+    )
+  }
+
+  /**
+   * 删除模板字段及各数据源中该字段的映射，绑定该字段的组件按同名数据列读取
+   */
+  function removeField(name: string) {
+    fields.value = fields.value.filter(field => field.name !== name)
+    dataSources.value = dataSources.value.map(source => {
+      if (!source.mapping || !(name in source.mapping)) return source
+      const mapping = { ...source.mapping }
+      delete mapping[name]
+      return { ...source, mapping }
+    })
+  }
+
+  function setRelations(list?: TemplateRelation[] | null) {
+    relations.value = cloneDeep(list ?? [])
+  }
+
+  /**
+   * 新增主从关联：默认以第一个数据源为主表、第二个数据源为明细
+   */
+  function addRelation() {
+    const [master, detail] = dataSources.value
+    relations.value = [
+      ...relations.value,
+      {
+        master: master?.name ?? '',
+        masterColumn: '',
+        detail: detail?.name ?? '',
+        detailColumn: '',
+        missingDetail: 'keep'
+      }
+    ]
+  }
+
+  function updateRelation(index: number, updates: Partial<TemplateRelation>) {
+    relations.value = relations.value.map((relation, i) =>
+      i === index ? { ...relation, ...updates } : relation
+    )
+  }
+
+  function removeRelation(index: number) {
+    relations.value = relations.value.filter((_, i) => i !== index)
+  }
+
   function exportTemplate(): string {
     return JSON.stringify(
       {
         paperSize: paperSize.value,
         widgets: widgets.value,
-        globalForcePageBreak: globalForcePageBreak.value
+        globalForcePageBreak: globalForcePageBreak.value,
+        fields: fields.value,
+        dataSources: dataSources.value,
+        relations: relations.value
       },
       null,
       2
@@ -381,6 +534,9 @@ export const useEditorStore = defineStore('editor', () => {
       if (data.widgets) widgets.value = normalizeImportedWidgets(data.widgets)
       if (data.globalForcePageBreak !== undefined)
         globalForcePageBreak.value = data.globalForcePageBreak
+      if (data.fields) setFields(data.fields)
+      if (data.dataSources) setDataSources(data.dataSources)
+      if (data.relations) setRelations(data.relations)
       saveHistory()
     } catch (e) {
       console.error('导入模板失败:', e)
@@ -501,11 +657,23 @@ export const useEditorStore = defineStore('editor', () => {
     const newHeight = rowHeight > 0 ? table.height + rowHeight : table.height
     const rowHeights = insertFraction(rowFractions, insertIndex)
 
+    // 在表尾行之间或之后插入的行属于表尾，沿用上一表尾行的统计范围
+    const footerRows = table.footerRows ?? 0
+    const footerIndex = insertIndex - (table.rows - footerRows)
+    const footerUpdates: Partial<TableWidget> = {}
+    if (footerRows > 0 && footerIndex > 0) {
+      const footerScopes = [...(table.footerScopes ?? [])]
+      footerScopes.splice(footerIndex, 0, footerScopes[footerIndex - 1] ?? 'total')
+      footerUpdates.footerRows = footerRows + 1
+      footerUpdates.footerScopes = footerScopes
+    }
+
     updateWidget(table.id, {
       cells: newCells,
       rows: newRows,
       height: Math.max(newHeight, 20),
-      rowHeights
+      rowHeights,
+      ...footerUpdates
     })
 
     const colStart = previousSelection ? previousSelection.startCol : 0
@@ -533,13 +701,9 @@ export const useEditorStore = defineStore('editor', () => {
       : colIndex
     const insertIndex = position === 'before' ? referenceCol : referenceCol + 1
 
-    const bindings = { ...(table.columnBindings || {}) }
-    const updatedBindings: Record<number, string> = {}
-    Object.keys(bindings).forEach(key => {
-      const col = Number(key)
-      const newCol = col >= insertIndex ? col + 1 : col
-      updatedBindings[newCol] = bindings[col]
-    })
+    const shiftColumn = (col: number) => (col >= insertIndex ? col + 1 : col)
+    const updatedBindings = remapColumnRecord(table.columnBindings, shiftColumn)
+    const updatedFormats = remapColumnRecord(table.columnFormats, shiftColumn)
 
     const columnFractions = getColumnFractions(table)
     const masters = extractMasterCells(table).map(cell => {
@@ -561,6 +725,7 @@ export const useEditorStore = defineStore('editor', () => {
       cols: newCols,
       width: Math.max(newWidth, 20),
       columnBindings: updatedBindings,
+      columnFormats: updatedFormats,
       columnWidths
     })
 
@@ -611,10 +776,19 @@ export const useEditorStore = defineStore('editor', () => {
     const newHeight = newRows > 0 ? table.height - rowHeight * removeCount : table.height
     const rowHeights = removeFractionRange(rowFractions, deleteStart, deleteEnd)
 
+    // 删除的行落在表尾范围内时同步减少表尾行
+    const footerStart = table.rows - (table.footerRows ?? 0)
+    const footerScopes = (table.footerScopes ?? []).filter(
+      (_, index) => footerStart + index < deleteStart || footerStart + index > deleteEnd
+    )
+    const removedFooterRows = countOverlap(footerStart, table.rows - 1, deleteStart, deleteEnd)
+
     updateWidget(table.id, {
       cells: newCells,
       rows: newRows,
       headerRows: Math.min(table.headerRows, newRows),
+      footerRows: Math.max((table.footerRows ?? 0) - removedFooterRows, 0),
+      footerScopes,
       height: Math.max(newHeight, 20),
       rowHeights
     })
@@ -636,16 +810,12 @@ export const useEditorStore = defineStore('editor', () => {
     const innerSize = getTableInnerSizeMm(table)
     const colWidth = table.cols > 0 ? innerSize.width / table.cols : 0
 
-    const bindings = { ...(table.columnBindings || {}) }
-    const updatedBindings: Record<number, string> = {}
-    Object.keys(bindings).forEach(key => {
-      const col = Number(key)
-      if (col >= deleteStart && col <= deleteEnd) {
-        return
-      }
-      const newCol = col > deleteEnd ? col - removeCount : col
-      updatedBindings[newCol] = bindings[col]
-    })
+    const shiftColumn = (col: number) => {
+      if (col >= deleteStart && col <= deleteEnd) return null
+      return col > deleteEnd ? col - removeCount : col
+    }
+    const updatedBindings = remapColumnRecord(table.columnBindings, shiftColumn)
+    const updatedFormats = remapColumnRecord(table.columnFormats, shiftColumn)
 
     const masters = extractMasterCells(table)
       .map(cell => {
@@ -674,6 +844,7 @@ export const useEditorStore = defineStore('editor', () => {
       cols: newCols,
       width: Math.max(newWidth, 20),
       columnBindings: updatedBindings,
+      columnFormats: updatedFormats,
       columnWidths
     })
     tableSelection.value = null
@@ -686,6 +857,9 @@ export const useEditorStore = defineStore('editor', () => {
     paperSize,
     scale,
     globalForcePageBreak,
+    fields, // 模板字段
+    dataSources, // 模板数据源
+    relations, // 数据源主从关联
     batchPrint, // 批量打印配置
     clipboard,
     addWidget,
@@ -701,6 +875,18 @@ export const useEditorStore = defineStore('editor', () => {
     setPaperSize,
     setScale,
     setGlobalForcePageBreak,
+    setFields,
+    addField,
+    updateField,
+    removeField,
+    setDataSources,
+    addDataSource,
+    updateDataSource,
+    removeDataSource,
+    setRelations,
+    addRelation,
+    updateRelation,
+    removeRelation,
     setBatchPrint, // 设置批量打印配置
     resetBatchPrint, // 重置批量打印配置
     exportTemplate,
@@ -39,8 +39,10 @@ export interface TextWidget extends WidgetBase {
   verticalAlign?: 'top' | 'middle' | 'bottom'
   letterSpacing?: number // px
   customCss?: string // CSS declarations, e.g. "line-height: 1.2; text-decoration: underline;"
+  source?: string // 绑定的数据源名称（Template.dataSources），不设置时使用模板的第一个数据源
   dataSource?: string // Excel 列绑定
   dataRowIndex?: number | 'all' // 数据行选择：'all' 表示所有行，数字表示具体行索引
+  format?: ValueFormat // 绑定数据的显示格式
   // 四边边框设置
   borderTop?: BorderStyle
   borderRight?: BorderStyle
@@ -59,6 +61,8 @@ export interface TableCell {
   rowSpan?: number
   colSpan?: number
   dataSource?: string
+  format?: ValueFormat // 绑定数据的显示格式，优先于列格式
+  aggregate?: TableAggregate // 表尾行单元格的统计方式，统计绑定的数据列
   // 单元格文本样式
   fontSize?: number
   fontFamily?: string
@@ -83,6 +87,7 @@ export interface TableWidget extends WidgetBase {
   cells: TableCell[][]
   headerRows: number
   showHeader?: boolean
+  repeatHeader?: boolean // 跨页分割时在每页顶部重复表头，默认开启
   borderWidth: number
   borderColor: string
   borderStyle?: 'solid' | 'dashed' | 'dotted'
@@ -97,16 +102,33 @@ export interface TableWidget extends WidgetBase {
   cellBorderWidth?: number
   cellBorderColor?: string
   cellBorderStyle?: 'solid' | 'dashed' | 'dotted'
+  source?: string // 绑定的数据源名称，列绑定、单元格绑定与表尾统计都读取该数据源
   dataSource?: string // 整体数据源绑定
   columnBindings?: Record<number, string>
+  columnFormats?: Record<number, ValueFormat> // 列绑定的显示格式
+  footerRows?: number // 表格底部作为表尾（统计行）的行数
+  footerScopes?: TableFooterScope[] // 各表尾行的统计范围，默认为合计
+  keepMergedRows?: boolean // 跨页分割时合并的行（单元格跨行或数据中的合并单元格）放在同一页
+  minRowsBeforeBreak?: number // 跨页分割时断开处之前至少保留的数据行数
+  minRowsAfterBreak?: number // 跨页分割时断开处之后至少保留的数据行数
+  breakColumn?: string // 该列的值变化时强制分页
   columnWidths?: number[]
   rowHeights?: number[]
 }
 
+export type TableAggregate = 'sum' | 'avg' | 'count' | 'min' | 'max'
+
+/**
+ * 表尾统计范围：page 为跨页时每页的本页小计，total 为全部数据的合计（只在最后一页显示）
+ */
+export type TableFooterScope = 'page' | 'total'
+
 export interface BarcodeWidget extends WidgetBase {
   type: 'barcode'
   value: string
-  format: 'CODE128' | 'CODE39' | 'EAN13' | 'EAN8'
+  format: 'CODE128' | 'CODE39' | 'EAN13' | 'EAN8' | 'UPCA' | 'ITF14' | 'CODABAR' | 'GS1_128'
+  showText?: boolean // 是否显示人眼可读文字，默认为 true
+  source?: string // 绑定的数据源名称
   dataSource?: string
   dataRowIndex?: number | 'all' // 数据行选择：'all' 表示所有行，数字表示具体行索引
 }
@@ -114,6 +136,12 @@ export interface BarcodeWidget extends WidgetBase {
 export interface QRCodeWidget extends WidgetBase {
   type: 'qrcode'
   value: string
+  format?: 'QR' | 'DATAMATRIX' | 'PDF417' // 码制，默认为 QR
+  errorCorrectionLevel?: 'L' | 'M' | 'Q' | 'H' // QR 纠错级别，默认为 M
+  margin?: number // 静区宽度（模块数），QR 默认为 4，Data Matrix / PDF417 默认为 2
+  foreground?: string // 前景色，默认为 #000000
+  background?: string // 背景色，默认为 #ffffff
+  source?: string // 绑定的数据源名称
   dataSource?: string
   dataRowIndex?: number | 'all' // 数据行选择：'all' 表示所有行，数字表示具体行索引
 }
@@ -144,15 +172,94 @@ export type Widget =
   | LineWidget
   | RectWidget
 
-export interface DataSource {
+/**
+ * 模板声明使用的数据源：组件通过 name 引用，fileName 指向已上传的数据文件
+ * 更换数据文件时只需修改 fileName，绑定保持不变
+ */
+export interface TemplateDataSource {
+  name: string // 模板内的数据源名称，如 客户表、明细表
+  fileName: string // 对应的数据文件名（DataSource.fileName）
+  mapping?: Record<string, string> // 模板字段名 -> 数据列名（DataColumn.name）
+}
+
+/**
+ * 模板字段：组件绑定字段名，由各数据源的字段映射对应到实际的数据列，
+ * 数据文件改了列名时只需修改映射
+ */
+export interface TemplateField {
+  name: string
+  type?: DataColumnType // 字段类型，数据列未指定类型时按该类型格式化
+  sample?: string // 示例值，便于设计模板与核对映射
+  required?: boolean // 手工填写时必须填写
+}
+
+/**
+ * 主从关联：批量打印每条主记录时，明细数据源中关联列值相同的行作为该记录的明细
+ * 如 订单.订单号 = 明细.订单号，一条主记录可对应多条明细
+ */
+export interface TemplateRelation {
+  master: string // 主数据源名称，需为批量打印的数据源
+  masterColumn: string
+  detail: string // 明细数据源名称
+  detailColumn: string
+  missingDetail?: 'keep' | 'skip' // 没有明细的主记录：照常打印（明细为空）或跳过，默认照常打印
+}
+
+export interface DataSource extends Partial<ExcelImportOptions> {
   fileName: string
-  columns: DataColumn[]
+  columns: DataColumn[] // 含派生列的计算结果，绑定时与原始列一样读取
+  derivedColumns?: DerivedColumn[] // 派生列定义，重新导入时沿用并重新计算
+}
+
+/**
+ * 派生列：按表达式由其他列计算，或按关联值从另一个数据源查找
+ */
+export type DerivedColumn =
+  | {
+      type: 'expression'
+      name: string
+      expression: string // 语法同 {{ }} 占位符，如 数量 * 单价
+    }
+  | {
+      type: 'lookup'
+      name: string
+      keyColumn: string // 本数据源中的关联列
+      lookupFile: string // 查找的数据文件（DataSource.fileName）
+      lookupKeyColumn: string // 查找数据源中与关联列匹配的列
+      lookupColumn: string // 取值的列，匹配多行时取第一行
+    }
+
+/**
+ * Excel 导入设置，行号均为工作表中的行（0 起）
+ * 保存在数据源上，重新上传同名文件时沿用
+ */
+export interface ExcelImportOptions {
+  sheetName: string
+  headerRow: number // 表头起始行
+  headerRowCount: number // 表头行数，多行表头合并为一个列名
+  dataStartRow: number // 数据起始行
 }
 
 export interface DataColumn {
   name: string
   data: (string | number)[]
   mergedRanges?: MergedRange[]
+  type?: DataColumnType // 导入时推断的类型
+  typeOverride?: DataColumnType // 用户指定的类型，优先于推断结果
+  derived?: boolean // 由派生列定义计算得到
+}
+
+export type DataColumnType = 'text' | 'number' | 'date' | 'boolean'
+
+/**
+ * 绑定数据的显示格式
+ */
+export interface ValueFormat {
+  type: 'number' | 'currency' | 'percent' | 'date' | 'rmbUppercase'
+  decimals?: number // 小数位数，不设置时保留原有精度
+  thousands?: boolean // 千分位分隔
+  currencySymbol?: string // 货币符号，默认 ¥
+  datePattern?: string // 日期格式，如 yyyy年MM月dd日
 }
 
 export interface MergedRange {
@@ -206,9 +313,40 @@ export const PAPER_SIZES: PaperSize[] = [
 export interface BatchPrintConfig {
   enabled: boolean // 是否启用批量打印
   dataSourceFile?: string // 关联的数据源文件名
-  printRange: 'all' | 'range' // 打印范围：全部 或 指定范围
+  printRange: 'all' | 'range' | 'selected' // 打印范围：全部、指定范围 或 勾选的行
   rangeStart?: number // 起始行索引（从 0 开始）
   rangeEnd?: number // 结束行索引
+  selectedRows?: number[] // 勾选的行索引（从 0 开始）
+  filters?: BatchPrintFilter[] // 筛选条件，同时满足时才打印
+  sorts?: BatchPrintSort[] // 排序规则，依次作为主次排序键
+  groupBy?: string // 分组列：该列值相同的数据行合并为一份单据
+  scanColumn?: string // 扫码列：扫码打印时按扫描内容查找该列值相同的行
+}
+
+/**
+ * 批量打印的筛选条件，value 按列类型比较
+ */
+export interface BatchPrintFilter {
+  column: string
+  operator: BatchPrintFilterOperator
+  value?: string
+}
+
+export type BatchPrintFilterOperator =
+  | 'eq'
+  | 'ne'
+  | 'contains'
+  | 'notContains'
+  | 'gt'
+  | 'gte'
+  | 'lt'
+  | 'lte'
+  | 'empty'
+  | 'notEmpty'
+
+export interface BatchPrintSort {
+  column: string
+  order: 'asc' | 'desc'
 }
 
 export interface Template {
@@ -221,6 +359,9 @@ export interface Template {
   createdAt: string
   updatedAt: string
   globalForcePageBreak?: boolean // 全局强制分页（每个组件独占一页）
+  fields?: TemplateField[] // 模板字段
+  dataSources?: TemplateDataSource[] // 模板使用的数据源
+  relations?: TemplateRelation[] // 数据源之间的主从关联
   batchPrint?: BatchPrintConfig // 批量打印配置
 }
 
@@ -0,0 +1,660 @@
+import type { BarcodeWidget } from '@/types'
+import {
+  GS1_SEPARATOR,
+  gs1CheckDigit,
+  gs1ElementString,
+  gs1HumanReadable,
+  parseGS1
+} from '@/utils/gs1'
+
+export type BarcodeFormat = BarcodeWidget['format']
+
+/**
+ * 人眼可读文字片段，x 以模块为单位（相对条码起点，不含静区）
+ */
+export interface BarcodeTextSegment {
+  text: string
+  x: number
+  anchor: 'start' | 'middle' | 'end'
+}
+
+/**
+ * 条码编码结果
+ * modules 为模块序列，true 表示黑条
+ */
+export interface BarcodeEncoding {
+  modules: boolean[]
+  quietLeft: number
+  quietRight: number
+  text: BarcodeTextSegment[]
+  // 需要加长的模块区间（EAN/UPC 起始、中间、终止符）
+  guards?: Array<[number, number]>
+}
+
+export interface BarcodeRect {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export interface BarcodeLabel {
+  text: string
+  x: number
+  y: number
+  fontSize: number
+  anchor: 'start' | 'middle' | 'end'
+}
+
+export interface BarcodeLayout {
+  width: number
+  height: number
+  bars: BarcodeRect[]
+  labels: BarcodeLabel[]
+}
+
+export interface BarcodeRenderOptions {
+  width: number // px
+  height: number // px
+  showText?: boolean
+  foreground?: string
+  background?: string
+}
+
+// ==================== CODE128 ====================
+
+const CODE128_PATTERNS = [
+  '212222', '222122', '222221', '121223', '121322', '131222', '122213', '122312', '132212',
+  '221213', '221312', '231212', '112232', '122132', '122231', '113222', '123122', '123221',
+  '223211', '221132', '221231', '213212', '223112', '312131', '311222', '321122', '321221',
+  '312212', '322112', '322211', '212123', '212321', '232121', '111323', '131123', '131321',
+  '112313', '132113', '132311', '211313', '231113', '231311', '112133', '112331', '132131',
+  '113123', '113321', '133121', '313121', '211331', '231131', '213113', '213311', '213131',
+  '311123', '311321', '331121', '312113', '312311', '332111', '314111', '221411', '431111',
+  '111224', '111422', '121124', '121421', '141122', '141221', '112214', '112412', '122114',
+  '122411', '142112', '142211', '241211', '221114', '413111', '241112', '134111', '111242',
+  '121142', '121241', '114212', '124112', '124211', '411212', '421112', '421211', '212141',
+  '214121', '412121', '111143', '111341', '131141', '114113', '114311', '411113', '411311',
+  '113141', '114131', '311141', '411131', '211412', '211214', '211232', '2331112'
+] // prettier-ignore
+
+const CODE128_START_A = 103
+const CODE128_START_B = 104
+const CODE128_START_C = 105
+const CODE128_STOP = 106
+const CODE128_CODE_A = 101
+const CODE128_CODE_B = 100
+const CODE128_CODE_C = 99
+const CODE128_SHIFT = 98
+const CODE128_FNC1 = 102
+
+type Code128Set = 'A' | 'B' | 'C'
+
+function widthsToModules(widths: string, modules: boolean[]) {
+  for (let i = 0; i < widths.length; i++) {
+    const bar = i % 2 === 0
+    for (let w = 0; w < Number(widths[i]); w++) modules.push(bar)
+  }
+}
+
+function countLeadingDigits(value: string, from: number): number {
+  let count = 0
+  while (from + count < value.length && /\d/.test(value[from + count])) count++
+  return count
+}
+
+function canUseSetB(code: number) {
+  return code >= 32 && code <= 127
+}
+
+function canUseSetA(code: number) {
+  return code >= 0 && code <= 95
+}
+
+/**
+ * 将文本转换为 CODE128 码字（不含校验与终止符）
+ * 连续 4 位以上数字使用 C 集压缩，控制字符使用 A 集，其余使用 B 集
+ * gs1 为 true 时在起始符后追加 FNC1，并将文本中的 GS1_SEPARATOR 编码为 FNC1
+ */
+export function encodeCode128Codewords(value: string, gs1 = false): number[] {
+  for (const ch of value) {
+    if (ch.charCodeAt(0) > 127) {
+      throw new Error(`CODE128 不支持字符「${ch}」，仅支持 ASCII 字符`)
+    }
+  }
+
+  const codewords: number[] = []
+  let set: Code128Set
+  const leadingDigits = countLeadingDigits(value, 0)
+  if (leadingDigits >= 4 || (leadingDigits === value.length && leadingDigits % 2 === 0)) {
+    set = 'C'
+    codewords.push(CODE128_START_C)
+  } else if (!gs1 && needsSetA(value, 0)) {
+    set = 'A'
+    codewords.push(CODE128_START_A)
+  } else {
+    set = 'B'
+    codewords.push(CODE128_START_B)
+  }
+  if (gs1) codewords.push(CODE128_FNC1)
+
+  let i = 0
+  while (i < value.length) {
+    const digits = countLeadingDigits(value, i)
+
+    // FNC1 在三个字符集中码字相同，无需切换
+    if (gs1 && value[i] === GS1_SEPARATOR) {
+      codewords.push(CODE128_FNC1)
+      i++
+      continue
+    }
+
+    if (set === 'C') {
+      if (digits >= 2) {
+        codewords.push(Number(value.slice(i, i + 2)))
+        i += 2
+        continue
+      }
+      set = !gs1 && needsSetA(value, i) ? 'A' : 'B'
+      codewords.push(set === 'A' ? CODE128_CODE_A : CODE128_CODE_B)
+      continue
+    }
+
+    // 剩余数字足够多时切换到 C 集（奇数个时先在当前集编码一位）
+    if (digits >= 4 && (digits % 2 === 0 || digits >= 5)) {
+      if (digits % 2 === 1) {
+        codewords.push(encodeCode128Char(value.charCodeAt(i), set))
+        i++
+      }
+      set = 'C'
+      codewords.push(CODE128_CODE_C)
+      continue
+    }
+
+    const code = value.charCodeAt(i)
+    if (set === 'B' && !canUseSetB(code)) {
+      // 单个控制字符使用 SHIFT，连续控制字符切换到 A 集
+      if (needsSetA(value, i + 1)) {
+        set = 'A'
+        codewords.push(CODE128_CODE_A)
+      } else {
+        codewords.push(CODE128_SHIFT, encodeCode128Char(code, 'A'))
+        i++
+      }
+      continue
+    }
+    if (set === 'A' && !canUseSetA(code)) {
+      set = 'B'
+      codewords.push(CODE128_CODE_B)
+      continue
+    }
+
+    codewords.push(encodeCode128Char(code, set))
+    i++
+  }
+
+  return codewords
+}
+
+function needsSetA(value: string, from: number): boolean {
+  for (let i = from; i < value.length; i++) {
+    const code = value.charCodeAt(i)
+    if (code < 32) return true
+    if (code >= 96) return false
+  }
+  return false
+}
+
+function encodeCode128Char(code: number, set: 'A' | 'B'): number {
+  if (set === 'A') return code >= 32 ? code - 32 : code + 64
+  return code - 32
+}
+
+/**
+ * 由码字生成完整 CODE128 模块序列（自动追加校验符与终止符）
+ */
+export function code128ModulesFromCodewords(codewords: number[]): boolean[] {
+  let checksum = codewords[0]
+  for (let i = 1; i < codewords.length; i++) {
+    checksum += codewords[i] * i
+  }
+  const all = [...codewords, checksum % 103, CODE128_STOP]
+  const modules: boolean[] = []
+  all.forEach(cw => widthsToModules(CODE128_PATTERNS[cw], modules))
+  return modules
+}
+
+function encodeCode128(value: string): BarcodeEncoding {
+  if (!value) throw new Error('条码内容不能为空')
+  const modules = code128ModulesFromCodewords(encodeCode128Codewords(value))
+  return {
+    modules,
+    quietLeft: 10,
+    quietRight: 10,
+    text: [{ text: value, x: modules.length / 2, anchor: 'middle' }]
+  }
+}
+
+// GS1-128：输入 (AI)数据 格式，按 AI 规则校验后以 FNC1 起始编码
+function encodeGs1128(value: string): BarcodeEncoding {
+  const elements = parseGS1(value)
+  const modules = code128ModulesFromCodewords(
+    encodeCode128Codewords(gs1ElementString(elements), true)
+  )
+  return {
+    modules,
+    quietLeft: 10,
+    quietRight: 10,
+    text: [{ text: gs1HumanReadable(elements), x: modules.length / 2, anchor: 'middle' }]
+  }
+}
+
+// ==================== CODE39 ====================
+
+const CODE39_PATTERNS: Record<string, string> = {
+  '0': 'nnnwwnwnn', '1': 'wnnwnnnnw', '2': 'nnwwnnnnw', '3': 'wnwwnnnnn', '4': 'nnnwwnnnw',
+  '5': 'wnnwwnnnn', '6': 'nnwwwnnnn', '7': 'nnnwnnwnw', '8': 'wnnwnnwnn', '9': 'nnwwnnwnn',
+  A: 'wnnnnwnnw', B: 'nnwnnwnnw', C: 'wnwnnwnnn', D: 'nnnnwwnnw', E: 'wnnnwwnnn',
+  F: 'nnwnwwnnn', G: 'nnnnnwwnw', H: 'wnnnnwwnn', I: 'nnwnnwwnn', J: 'nnnnwwwnn',
+  K: 'wnnnnnnww', L: 'nnwnnnnww', M: 'wnwnnnnwn', N: 'nnnnwnnww', O: 'wnnnwnnwn',
+  P: 'nnwnwnnwn', Q: 'nnnnnnwww', R: 'wnnnnnwwn', S: 'nnwnnnwwn', T: 'nnnnwnwwn',
+  U: 'wwnnnnnnw', V: 'nwwnnnnnw', W: 'wwwnnnnnn', X: 'nwnnwnnnw', Y: 'wwnnwnnnn',
+  Z: 'nwwnwnnnn', '-': 'nwnnnnwnw', '.': 'wwnnnnwnn', ' ': 'nwwnnnwnn', '*': 'nwnnwnwnn',
+  $: 'nwnwnwnnn', '/': 'nwnwnnnwn', '+': 'nwnnnwnwn', '%': 'nnnwnwnwn'
+} // prettier-ignore
+
+const CODE39_WIDE = 3
+
+function encodeCode39(value: string): BarcodeEncoding {
+  if (!value) throw new Error('条码内容不能为空')
+  for (const ch of value) {
+    if (ch === '*' || !CODE39_PATTERNS[ch]) {
+      throw new Error(`CODE39 不支持字符「${ch}」，仅支持 0-9、A-Z、空格及 - . $ / + %`)
+    }
+  }
+
+  const modules: boolean[] = []
+  const chars = `*${value}*`
+  for (let c = 0; c < chars.length; c++) {
+    const pattern = CODE39_PATTERNS[chars[c]]
+    for (let i = 0; i < pattern.length; i++) {
+      const width = pattern[i] === 'w' ? CODE39_WIDE : 1
+      for (let w = 0; w < width; w++) modules.push(i % 2 === 0)
+    }
+    // 字符间隔
+    if (c < chars.length - 1) modules.push(false)
+  }
+
+  return {
+    modules,
+    quietLeft: 10,
+    quietRight: 10,
+    text: [{ text: value, x: modules.length / 2, anchor: 'middle' }]
+  }
+}
+
+// ==================== ITF-14 ====================
+
+const ITF_PATTERNS = [
+  'nnwwn', 'wnnnw', 'nwnnw', 'wwnnn', 'nnwnw',
+  'wnwnn', 'nwwnn', 'nnnww', 'wnnwn', 'nwnwn'
+] // prettier-ignore
+
+const ITF_WIDE = 3
+
+function encodeItf14(value: string): BarcodeEncoding {
+  const digits = normalizeCheckedDigits(value, 14, 'ITF-14')
+  const modules: boolean[] = []
+  pushBits('1010', modules)
+  // 每两位一组：前一位编码为条，后一位编码为空
+  for (let i = 0; i < digits.length; i += 2) {
+    const bars = ITF_PATTERNS[Number(digits[i])]
+    const spaces = ITF_PATTERNS[Number(digits[i + 1])]
+    for (let k = 0; k < 5; k++) {
+      const barWidth = bars[k] === 'w' ? ITF_WIDE : 1
+      const spaceWidth = spaces[k] === 'w' ? ITF_WIDE : 1
+      for (let w = 0; w < barWidth; w++) modules.push(true)
+      for (let w = 0; w < spaceWidth; w++) modules.push(false)
+    }
+  }
+  for (let w = 0; w < ITF_WIDE; w++) modules.push(true)
+  pushBits('01', modules)
+
+  return {
+    modules,
+    quietLeft: 10,
+    quietRight: 10,
+    text: [{ text: digits, x: modules.length / 2, anchor: 'middle' }]
+  }
+}
+
+// ==================== Codabar ====================
+
+// 7 个元素（条空交替），1 表示宽元素
+const CODABAR_PATTERNS: Record<string, string> = {
+  '0': '0000011', '1': '0000110', '2': '0001001', '3': '1100000', '4': '0010010',
+  '5': '1000010', '6': '0100001', '7': '0100100', '8': '0110000', '9': '1001000',
+  '-': '0001100', $: '0011000', ':': '1000101', '/': '1010001', '.': '1010100',
+  '+': '0010101', A: '0011010', B: '0101001', C: '0001011', D: '0001110'
+} // prettier-ignore
+
+const CODABAR_WIDE = 3
+
+function encodeCodabar(value: string): BarcodeEncoding {
+  if (!value) throw new Error('条码内容不能为空')
+  let chars = value.toUpperCase()
+  const isGuard = (ch: string) => 'ABCD'.includes(ch)
+  // 未指定起止符时默认使用 A
+  if (!isGuard(chars[0]) && !isGuard(chars[chars.length - 1])) {
+    chars = `A${chars}A`
+  } else if (chars.length < 3 || !isGuard(chars[0]) || !isGuard(chars[chars.length - 1])) {
+    throw new Error('Codabar 起始符与终止符需同时为 A、B、C、D 之一')
+  }
+  const body = chars.slice(1, -1)
+  for (const ch of body) {
+    if (isGuard(ch) || !CODABAR_PATTERNS[ch]) {
+      throw new Error(`Codabar 不支持字符「${ch}」，仅支持 0-9 及 - $ : / . +`)
+    }
+  }
+
+  const modules: boolean[] = []
+  for (let c = 0; c < chars.length; c++) {
+    const pattern = CODABAR_PATTERNS[chars[c]]
+    for (let i = 0; i < pattern.length; i++) {
+      const width = pattern[i] === '1' ? CODABAR_WIDE : 1
+      for (let w = 0; w < width; w++) modules.push(i % 2 === 0)
+    }
+    if (c < chars.length - 1) modules.push(false)
+  }
+
+  return {
+    modules,
+    quietLeft: 10,
+    quietRight: 10,
+    text: [{ text: body, x: modules.length / 2, anchor: 'middle' }]
+  }
+}
+
+// ==================== EAN / UPC ====================
+
+export const EAN_L_CODES = [
+  '0001101', '0011001', '0010011', '0111101', '0100011',
+  '0110001', '0101111', '0111011', '0110111', '0001011'
+] // prettier-ignore
+
+export const EAN_R_CODES = EAN_L_CODES.map(code =>
+  code
+    .split('')
+    .map(bit => (bit === '1' ? '0' : '1'))
+    .join('')
+)
+
+export const EAN_G_CODES = EAN_R_CODES.map(code => code.split('').reverse().join(''))
+
+const EAN13_PARITY = [
+  'LLLLLL', 'LLGLGG', 'LLGGLG', 'LLGGGL', 'LGLLGG',
+  'LGGLLG', 'LGGGLL', 'LGLGLG', 'LGLGGL', 'LGGLGL'
+] // prettier-ignore
+
+/**
+ * 规范化带校验位的定长数字码：
+ * 长度为 length-1 时自动补校验位，长度为 length 时校验最后一位
+ */
+export function normalizeCheckedDigits(value: string, length: number, label: string): string {
+  if (!/^\d+$/.test(value)) {
+    throw new Error(`${label} 只能包含数字`)
+  }
+  if (value.length === length - 1) {
+    return value + gs1CheckDigit(value)
+  }
+  if (value.length !== length) {
+    throw new Error(`${label} 需要 ${length - 1} 位数字（自动补校验位）或 ${length} 位数字`)
+  }
+  const expected = gs1CheckDigit(value.slice(0, -1))
+  if (Number(value[length - 1]) !== expected) {
+    throw new Error(`${label} 校验位错误，应为 ${expected}`)
+  }
+  return value
+}
+
+function pushBits(bits: string, modules: boolean[]) {
+  for (const bit of bits) modules.push(bit === '1')
+}
+
+function encodeEan13(value: string): BarcodeEncoding {
+  const digits = normalizeCheckedDigits(value, 13, 'EAN13')
+  const parity = EAN13_PARITY[Number(digits[0])]
+  const modules: boolean[] = []
+  const guards: Array<[number, number]> = []
+
+  guards.push([modules.length, 3])
+  pushBits('101', modules)
+  for (let i = 1; i <= 6; i++) {
+    const d = Number(digits[i])
+    pushBits(parity[i - 1] === 'L' ? EAN_L_CODES[d] : EAN_G_CODES[d], modules)
+  }
+  guards.push([modules.length, 5])
+  pushBits('01010', modules)
+  for (let i = 7; i <= 12; i++) {
+    pushBits(EAN_R_CODES[Number(digits[i])], modules)
+  }
+  guards.push([modules.length, 3])
+  pushBits('101', modules)
+
+  return {
+    modules,
+    quietLeft: 11,
+    quietRight: 7,
+    guards,
+    text: [
+      { text: digits[0], x: -2, anchor: 'end' },
+      { text: digits.slice(1, 7), x: 3 + 21, anchor: 'middle' },
+      { text: digits.slice(7), x: 3 + 42 + 5 + 21, anchor: 'middle' }
+    ]
+  }
+}
+
+function encodeEan8(value: string): BarcodeEncoding {
+  const digits = normalizeCheckedDigits(value, 8, 'EAN8')
+  const modules: boolean[] = []
+  const guards: Array<[number, number]> = []
+
+  guards.push([modules.length, 3])
+  pushBits('101', modules)
+  for (let i = 0; i < 4; i++) pushBits(EAN_L_CODES[Number(digits[i])], modules)
+  guards.push([modules.length, 5])
+  pushBits('01010', modules)
+  for (let i = 4; i < 8; i++) pushBits(EAN_R_CODES[Number(digits[i])], modules)
+  guards.push([modules.length, 3])
+  pushBits('101', modules)
+
+  return {
+    modules,
+    quietLeft: 7,
+    quietRight: 7,
+    guards,
+    text: [
+      { text: digits.slice(0, 4), x: 3 + 14, anchor: 'middle' },
+      { text: digits.slice(4), x: 3 + 28 + 5 + 14, anchor: 'middle' }
+    ]
+  }
+}
+
+function encodeUpcA(value: string): BarcodeEncoding {
+  const digits = normalizeCheckedDigits(value, 12, 'UPC-A')
+  const modules: boolean[] = []
+  const guards: Array<[number, number]> = []
+
+  // 首末两位数字的条与保护符一同加长
+  guards.push([modules.length, 3 + 7])
+  pushBits('101', modules)
+  for (let i = 0; i < 6; i++) pushBits(EAN_L_CODES[Number(digits[i])], modules)
+  guards.push([modules.length, 5])
+  pushBits('01010', modules)
+  for (let i = 6; i < 12; i++) pushBits(EAN_R_CODES[Number(digits[i])], modules)
+  guards.push([modules.length - 7, 7 + 3])
+  pushBits('101', modules)
+
+  return {
+    modules,
+    quietLeft: 9,
+    quietRight: 9,
+    guards,
+    text: [
+      { text: digits[0], x: -2, anchor: 'end' },
+      { text: digits.slice(1, 6), x: 3 + 7 + 17.5, anchor: 'middle' },
+      { text: digits.slice(6, 11), x: 3 + 42 + 5 + 17.5, anchor: 'middle' },
+      { text: digits[11], x: modules.length + 2, anchor: 'start' }
+    ]
+  }
+}
+
+// ==================== 公共入口 ====================
+
+const ENCODERS: Record<BarcodeFormat, (value: string) => BarcodeEncoding> = {
+  CODE128: encodeCode128,
+  CODE39: encodeCode39,
+  EAN13: encodeEan13,
+  EAN8: encodeEan8,
+  UPCA: encodeUpcA,
+  ITF14: encodeItf14,
+  CODABAR: encodeCodabar,
+  GS1_128: encodeGs1128
+}
+
+/**
+ * 按指定格式编码条码，内容不合法时抛出带中文说明的错误
+ */
+export function encodeBarcode(value: string, format: BarcodeFormat): BarcodeEncoding {
+  const encoder = ENCODERS[format]
+  if (!encoder) throw new Error(`不支持的条码格式：${format}`)
+  return encoder(value.trim())
+}
+
+/**
+ * 校验条码内容，返回错误信息；合法时返回 null
+ */
+export function validateBarcode(value: string, format: BarcodeFormat): string | null {
+  try {
+    encodeBarcode(value, format)
+    return null
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error)
+  }
+}
+
+/**
+ * 将编码结果排版到指定尺寸（px），SVG 与 PDF 共用同一份几何数据
+ */
+export function layoutBarcode(
+  encoding: BarcodeEncoding,
+  options: Pick<BarcodeRenderOptions, 'width' | 'height' | 'showText'>
+): BarcodeLayout {
+  const { width, height } = options
+  const showText = options.showText !== false && encoding.text.length > 0
+  const totalModules = encoding.quietLeft + encoding.modules.length + encoding.quietRight
+  const moduleWidth = width / totalModules
+  const fontSize = showText ? Math.max(8, Math.min(14, height * 0.2, moduleWidth * 9)) : 0
+  const textHeight = showText ? fontSize * 1.2 : 0
+  const barHeight = Math.max(height - textHeight, height * 0.5)
+  const guardHeight = Math.min(barHeight + textHeight / 2, height)
+  const offset = encoding.quietLeft * moduleWidth
+
+  const isGuard = (index: number) =>
+    encoding.guards?.some(([start, len]) => index >= start && index < start + len) ?? false
+
+  const bars: BarcodeRect[] = []
+  let i = 0
+  while (i < encoding.modules.length) {
+    if (!encoding.modules[i]) {
+      i++
+      continue
+    }
+    const start = i
+    const guard = isGuard(i)
+    while (i < encoding.modules.length && encoding.modules[i] && isGuard(i) === guard) i++
+    bars.push({
+      x: offset + start * moduleWidth,
+      y: 0,
+      width: (i - start) * moduleWidth,
+      height: guard && showText ? guardHeight : barHeight
+    })
+  }
+
+  const labels: BarcodeLabel[] = showText
+    ? encoding.text.map(segment => ({
+        text: segment.text,
+        x: offset + segment.x * moduleWidth,
+        y: barHeight + fontSize,
+        fontSize,
+        anchor: segment.anchor
+      }))
+    : []
+
+  return { width, height, bars, labels }
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000
+}
+
+/**
+ * 生成条码 SVG 字符串，编辑器画布、预览与 HTML 导出共用
+ */
+export function renderBarcodeSvg(
+  value: string,
+  format: BarcodeFormat,
+  options: BarcodeRenderOptions
+): { svg: string; error: null } | { svg: null; error: string } {
+  let encoding: BarcodeEncoding
+  try {
+    encoding = encodeBarcode(value, format)
+  } catch (error) {
+    return { svg: null, error: error instanceof Error ? error.message : String(error) }
+  }
+
+  const width = Math.max(options.width, 1)
+  const height = Math.max(options.height, 1)
+  const layout = layoutBarcode(encoding, { width, height, showText: options.showText })
+  const foreground = options.foreground || '#000000'
+  const background = options.background || '#ffffff'
+
+  const bars = layout.bars
+    .map(
+      bar =>
+        `<rect x="${round(bar.x)}" y="${round(bar.y)}" width="${round(bar.width)}" height="${round(bar.height)}"/>`
+    )
+    .join('')
+  const labels = layout.labels
+    .map(
+      label =>
+        `<text x="${round(label.x)}" y="${round(label.y)}" font-size="${round(label.fontSize)}" text-anchor="${label.anchor}">${escapeXml(label.text)}</text>`
+    )
+    .join('')
+
+  const svg =
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${round(width)}" height="${round(height)}" viewBox="0 0 ${round(width)} ${round(height)}" shape-rendering="crispEdges">` +
+    `<rect width="100%" height="100%" fill="${escapeXml(background)}"/>` +
+    `<g fill="${escapeXml(foreground)}">${bars}</g>` +
+    (labels
+      ? `<g fill="${escapeXml(foreground)}" font-family="monospace, Arial, sans-serif">${labels}</g>`
+      : '') +
+    `</svg>`
+
+  return { svg, error: null }
+}
+
+/**
+ * SVG 转 data URL，便于以 <img> 渲染（html2canvas 也能正确截取）
+ */
+export function svgToDataUrl(svg: string): string {
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`
+}
@@ -1,4 +1,32 @@
-import type { BatchPrintConfig } from '@/types'
+import type {
+  BatchPrintConfig,
+  BatchPrintFilter,
+  BatchPrintFilterOperator,
+  BatchPrintSort,
+  DataColumn,
+  DataColumnType,
+  DataSource
+} from '@/types'
+import { parseDate, parseNumber } from '@/utils/format'
+
+export const BATCH_FILTER_OPERATOR_OPTIONS: Array<{
+  label: string
+  value: BatchPrintFilterOperator
+}> = [
+  { label: '等于', value: 'eq' },
+  { label: '不等于', value: 'ne' },
+  { label: '包含', value: 'contains' },
+  { label: '不包含', value: 'notContains' },
+  { label: '大于', value: 'gt' },
+  { label: '大于等于', value: 'gte' },
+  { label: '小于', value: 'lt' },
+  { label: '小于等于', value: 'lte' },
+  { label: '为空', value: 'empty' },
+  { label: '不为空', value: 'notEmpty' }
+]
+
+// 不需要填写比较值的条件
+export const VALUELESS_FILTER_OPERATORS: BatchPrintFilterOperator[] = ['empty', 'notEmpty']
 
 export function normalizeBatchPrintConfig(
   input?: Partial<BatchPrintConfig> | null
@@ -6,12 +34,165 @@ export function normalizeBatchPrintConfig(
   const enabled = input?.enabled ?? true
   const printRange: BatchPrintConfig['printRange'] = input?.printRange ?? 'range'
   const dataSourceFile = input?.dataSourceFile
+  const rules = {
+    selectedRows: normalizeSelectedRows(input?.selectedRows),
+    filters: (input?.filters ?? []).map(filter => ({ ...filter })),
+    sorts: (input?.sorts ?? []).map(sort => ({ ...sort })),
+    groupBy: input?.groupBy || undefined,
+    scanColumn: input?.scanColumn || undefined
+  }
 
   if (printRange === 'range') {
     const start = Math.max(0, input?.rangeStart ?? 0)
     const end = Math.max(start, input?.rangeEnd ?? start)
-    return { enabled, dataSourceFile, printRange, rangeStart: start, rangeEnd: end }
+    return { enabled, dataSourceFile, printRange, rangeStart: start, rangeEnd: end, ...rules }
   }
 
-  return { enabled, dataSourceFile, printRange }
+  return { enabled, dataSourceFile, printRange, ...rules }
+}
+
+function normalizeSelectedRows(rows?: number[]): number[] {
+  const valid = (rows ?? []).filter(row => Number.isInteger(row) && row >= 0)
+  return [...new Set(valid)].sort((a, b) => a - b)
+}
+
+// ==================== 筛选与排序 ====================
+
+type ComparableValue = number | string | null
+
+function getColumnType(column: DataColumn): DataColumnType {
+  return column.typeOverride ?? column.type ?? 'text'
+}
+
+function isEmptyValue(value: string | number | undefined): boolean {
+  return value === undefined || String(value).trim() === ''
+}
+
+/**
+ * 按列类型转为可比较的值：数字列比较数值，日期列比较时间，无法解析时按文本比较
+ */
+function toComparable(value: string | number | undefined, type: DataColumnType): ComparableValue {
+  if (isEmptyValue(value)) return null
+  const text = String(value).trim()
+  if (type === 'number') return parseNumber(value!) ?? text
+  if (type === 'date') return parseDate(value!, 'date')?.getTime() ?? text
+  if (type === 'boolean') {
+    const lower = text.toLowerCase()
+    if (['是', 'true', '1', 'y', 'yes'].includes(lower)) return 'true'
+    if (['否', 'false', '0', 'n', 'no'].includes(lower)) return 'false'
+  }
+  return text
+}
+
+function compareValues(a: ComparableValue, b: ComparableValue): number {
+  if (typeof a === 'number' && typeof b === 'number') return a - b
+  return String(a ?? '').localeCompare(String(b ?? ''), 'zh-CN', { numeric: true })
+}
+
+function matchesFilter(
+  value: string | number | undefined,
+  filter: BatchPrintFilter,
+  type: DataColumnType
+): boolean {
+  switch (filter.operator) {
+    case 'empty':
+      return isEmptyValue(value)
+    case 'notEmpty':
+      return !isEmptyValue(value)
+    case 'contains':
+      return String(value ?? '').includes(filter.value ?? '')
+    case 'notContains':
+      return !String(value ?? '').includes(filter.value ?? '')
+  }
+
+  const left = toComparable(value, type)
+  const right = toComparable(filter.value, type)
+  if (filter.operator === 'eq') return compareValues(left, right) === 0
+  if (filter.operator === 'ne') return compareValues(left, right) !== 0
+  // 大小比较时空值不满足条件
+  if (left === null || right === null) return false
+  const result = compareValues(left, right)
+  switch (filter.operator) {
+    case 'gt':
+      return result > 0
+    case 'gte':
+      return result >= 0
+    case 'lt':
+      return result < 0
+    case 'lte':
+      return result <= 0
+  }
+  return true
+}
+
+function sortRows(rows: number[], sorts: BatchPrintSort[], dataSource: DataSource): number[] {
+  const keys = sorts
+    .map(sort => ({ sort, column: dataSource.columns.find(col => col.name === sort.column) }))
+    .filter((key): key is { sort: BatchPrintSort; column: DataColumn } => !!key.column)
+    .map(({ sort, column }) => {
+      const type = getColumnType(column)
+      return { order: sort.order, values: column.data.map(value => toComparable(value, type)) }
+    })
+  if (keys.length === 0) return rows
+
+  // Array.prototype.sort 是稳定排序，排序键相同的行保持原顺序
+  return [...rows].sort((a, b) => {
+    for (const key of keys) {
+      const left = key.values[a] ?? null
+      const right = key.values[b] ?? null
+      if (left === right) continue
+      // 空值始终排在最后
+      if (left === null) return 1
+      if (right === null) return -1
+      const result = compareValues(left, right)
+      if (result !== 0) return key.order === 'desc' ? -result : result
+    }
+    return 0
+  })
+}
+
+/**
+ * 批量打印的数据行索引：先按打印范围取行，再依次筛选、排序
+ * 引用不存在的列的筛选条件与排序规则会被忽略
+ */
+export function resolveBatchPrintRows(config: BatchPrintConfig, dataSource: DataSource): number[] {
+  const totalRows = dataSource.columns[0]?.data.length ?? 0
+  let rows: number[]
+  if (config.printRange === 'selected') {
+    rows = normalizeSelectedRows(config.selectedRows).filter(row => row < totalRows)
+  } else if (
+    config.printRange === 'range' &&
+    config.rangeStart !== undefined &&
+    config.rangeEnd !== undefined
+  ) {
+    const start = Math.max(0, config.rangeStart)
+    const end = Math.min(totalRows - 1, config.rangeEnd)
+    rows = Array.from({ length: Math.max(end - start + 1, 0) }, (_, i) => start + i)
+  } else {
+    rows = Array.from({ length: totalRows }, (_, i) => i)
+  }
+
+  for (const filter of config.filters ?? []) {
+    const column = dataSource.columns.find(col => col.name === filter.column)
+    if (!column) continue
+    const type = getColumnType(column)
+    rows = rows.filter(row => matchesFilter(column.data[row], filter, type))
+  }
+
+  return sortRows(rows, config.sorts ?? [], dataSource)
+}
+
+/**
+ * 按分组列的值划分数据行：组的顺序与组内行的顺序都沿用筛选排序后的顺序，
+ * 分组列值相同但不相邻的行也归入同一组
+ */
+export function groupBatchPrintRows(rows: number[], groupData: (string | number)[]): number[][] {
+  const groups = new Map<string, number[]>()
+  for (const row of rows) {
+    const key = String(groupData[row] ?? '').trim()
+    const group = groups.get(key)
+    if (group) group.push(row)
+    else groups.set(key, [row])
+  }
+  return [...groups.values()]
 }
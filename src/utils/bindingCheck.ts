@@ -0,0 +1,184 @@
+import type { BatchPrintConfig, Template, TemplateDataSource, TemplateField, Widget } from '@/types'
+import { getExpressionColumns, hasTemplateExpression, parseTemplate } from '@/utils/expression'
+import {
+  getTemplateSource,
+  getWidgetSource,
+  normalizeTemplateDataSources
+} from '@/utils/templateDataSource'
+import { suggestFieldMapping } from '@/utils/templateField'
+
+/**
+ * 绑定检查：收集模板中引用的数据列，找出读取不到数据的绑定；
+ * 重新导入同名数据文件时对比新旧列，把改了名的列通过字段映射接回原有绑定
+ */
+
+export interface TemplateBinding {
+  widgetId?: string // 主从关联中的绑定没有组件
+  source?: string // 模板数据源名称，未指定时为默认数据源
+  column: string // 绑定的列名或模板字段名
+  location: string // 绑定位置，如 绑定列、第 2 列、单元格 1-3
+}
+
+export interface ColumnDiff {
+  added: string[]
+  removed: string[]
+  renamed: Record<string, string> // 按名称相似度推测的改名：旧列名 -> 新列名
+}
+
+// 用于绑定检查与改名的模板内容，编辑器中的模板与已保存的模板都可以传入
+export type BindingTemplate = Pick<
+  Template,
+  'widgets' | 'fields' | 'dataSources' | 'relations' | 'batchPrint'
+>
+
+function getContentColumns(content?: string): string[] {
+  if (!content || !hasTemplateExpression(content)) return []
+  return parseTemplate(content).flatMap(segment =>
+    segment.type === 'expression' && segment.node ? getExpressionColumns(segment.node) : []
+  )
+}
+
+/**
+ * 组件引用的数据列：绑定列、表格列绑定、单元格绑定与内容中的表达式，同一位置的重复引用只记一次
+ */
+export function collectWidgetBindings(widget: Widget): TemplateBinding[] {
+  const source = getWidgetSource(widget)
+  const bindings = new Map<string, TemplateBinding>()
+  const add = (column: string | undefined, location: string) => {
+    if (column)
+      bindings.set(`${location}\n${column}`, { widgetId: widget.id, source, column, location })
+  }
+
+  if (widget.type === 'table') {
+    add(widget.dataSource, '表格绑定')
+    add(widget.breakColumn, '分页列')
+    Object.entries(widget.columnBindings ?? {}).forEach(([col, column]) =>
+      add(column, `第 ${Number(col) + 1} 列`)
+    )
+    widget.cells?.forEach((row, r) =>
+      row.forEach((cell, c) => {
+        const location = `单元格 ${r + 1}-${c + 1}`
+        add(cell?.dataSource, location)
+        getContentColumns(cell?.content).forEach(column => add(column, `${location} 表达式`))
+      })
+    )
+  } else if ('dataSource' in widget) {
+    add(widget.dataSource, '绑定列')
+  }
+  if (widget.type === 'text') {
+    getContentColumns(widget.content).forEach(column => add(column, '表达式'))
+  }
+  return [...bindings.values()]
+}
+
+/**
+ * 模板引用的全部数据列：组件绑定与主从关联的关联列
+ */
+export function collectTemplateBindings(
+  template: Pick<Template, 'widgets' | 'relations'>
+): TemplateBinding[] {
+  const relationBindings = (template.relations ?? []).flatMap(relation => [
+    { source: relation.master, column: relation.masterColumn, location: '主从关联（主表）' },
+    { source: relation.detail, column: relation.detailColumn, location: '主从关联（明细）' }
+  ])
+  return [
+    ...template.widgets.flatMap(collectWidgetBindings),
+    ...relationBindings.filter(binding => binding.column)
+  ]
+}
+
+/**
+ * 读取不到数据的绑定；数据源没有加载数据时无法判断，不算作失效
+ * @param hasColumn 在模板数据源中查找列名或字段，数据源没有数据时返回 null
+ */
+export function findBrokenBindings(
+  bindings: TemplateBinding[],
+  hasColumn: (source: string | undefined, column: string) => boolean | null
+): TemplateBinding[] {
+  return bindings.filter(binding => hasColumn(binding.source, binding.column) === false)
+}
+
+/**
+ * 对比同一数据文件新旧两次导入的列
+ */
+export function diffColumns(previous: string[], next: string[]): ColumnDiff {
+  const added = next.filter(name => !previous.includes(name))
+  const removed = previous.filter(name => !next.includes(name))
+  const renamed = suggestFieldMapping(
+    removed.map(name => ({ name })),
+    added.map(name => ({ name, data: [] }))
+  )
+  return { added, removed, renamed }
+}
+
+/**
+ * 模板中读取数据文件指定列的绑定，按字段映射解析实际读取的列
+ * @param columns 数据文件中的列名
+ */
+export function findColumnBindings(
+  template: BindingTemplate,
+  fileName: string,
+  columns: string[]
+): TemplateBinding[] {
+  const sources = normalizeTemplateDataSources(
+    template.dataSources,
+    template.batchPrint?.dataSourceFile
+  )
+  return collectTemplateBindings(template).filter(binding => {
+    const source = getTemplateSource(sources, binding.source)
+    if (source?.fileName !== fileName) return false
+    return columns.includes(source.mapping?.[binding.column] || binding.column)
+  })
+}
+
+/**
+ * 把数据文件中改名的列应用到模板：组件、表达式中的名称保持不变，
+ * 改为通过字段映射读取新列，直接绑定旧列名的名称加入模板字段；批量打印的筛选、排序与分组列直接改名
+ * @param renamed 旧列名 -> 新列名
+ */
+export function applyColumnRenames(
+  template: BindingTemplate,
+  fileName: string,
+  renamed: Record<string, string>
+): { fields: TemplateField[]; dataSources: TemplateDataSource[]; batchPrint?: BatchPrintConfig } {
+  const fields = [...(template.fields ?? [])]
+  const sources = normalizeTemplateDataSources(
+    template.dataSources,
+    template.batchPrint?.dataSourceFile
+  )
+  const renameColumn = (column: string) => renamed[column] ?? column
+
+  const dataSources = sources.map(source => {
+    if (source.fileName !== fileName) return source
+    const mapping: Record<string, string> = {}
+    Object.entries(source.mapping ?? {}).forEach(([field, column]) => {
+      mapping[field] = renameColumn(column)
+    })
+    collectTemplateBindings(template).forEach(binding => {
+      if (getTemplateSource(sources, binding.source) !== source) return
+      if (mapping[binding.column] || !renamed[binding.column]) return
+      mapping[binding.column] = renamed[binding.column]
+      if (!fields.some(field => field.name === binding.column)) {
+        fields.push({ name: binding.column })
+      }
+    })
+    return { ...source, mapping }
+  })
+
+  const batchPrint = template.batchPrint
+  if (batchPrint?.dataSourceFile !== fileName) return { fields, dataSources, batchPrint }
+  return {
+    fields,
+    dataSources,
+    batchPrint: {
+      ...batchPrint,
+      filters: batchPrint.filters?.map(filter => ({
+        ...filter,
+        column: renameColumn(filter.column)
+      })),
+      sorts: batchPrint.sorts?.map(sort => ({ ...sort, column: renameColumn(sort.column) })),
+      groupBy: batchPrint.groupBy && renameColumn(batchPrint.groupBy),
+      scanColumn: batchPrint.scanColumn && renameColumn(batchPrint.scanColumn)
+    }
+  }
+}
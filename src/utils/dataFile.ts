@@ -0,0 +1,205 @@
+import type { DataColumn } from '@/types'
+
+/**
+ * 文本数据文件（CSV/TSV/JSON）的解析
+ * 结果统一转换为表格行或 DataColumn，与 Excel 数据源共用同一套绑定逻辑
+ */
+
+export type DataFileType = 'excel' | 'delimited' | 'json'
+
+export const DATA_FILE_ACCEPT = '.xlsx,.xls,.csv,.tsv,.txt,.json'
+
+export function getDataFileType(fileName: string): DataFileType {
+  const extension = fileName.split('.').pop()?.toLowerCase()
+  if (extension === 'json') return 'json'
+  if (extension === 'csv' || extension === 'tsv' || extension === 'txt') return 'delimited'
+  return 'excel'
+}
+
+// ==================== 编码识别 ====================
+
+/**
+ * 按 BOM 与 UTF-8 合法性识别编码：非法 UTF-8 按 GB18030（兼容 GBK、GB2312）解码
+ */
+export function decodeText(buffer: ArrayBuffer): { text: string; encoding: string } {
+  const bytes = new Uint8Array(buffer)
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return { text: new TextDecoder('utf-8').decode(bytes.subarray(3)), encoding: 'UTF-8 BOM' }
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+    return { text: new TextDecoder('utf-16le').decode(bytes.subarray(2)), encoding: 'UTF-16LE' }
+  }
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return { text: new TextDecoder('utf-16be').decode(bytes.subarray(2)), encoding: 'UTF-16BE' }
+  }
+  try {
+    return { text: new TextDecoder('utf-8', { fatal: true }).decode(bytes), encoding: 'UTF-8' }
+  } catch {
+    return { text: new TextDecoder('gb18030').decode(bytes), encoding: 'GB18030' }
+  }
+}
+
+// ==================== CSV / TSV ====================
+
+export interface DelimitedTextOptions {
+  delimiter: string
+  quote: string
+}
+
+const DELIMITER_CANDIDATES = [',', '\t', ';', '|']
+const SAMPLE_ROWS = 20
+
+/**
+ * 按 RFC 4180 规则解析分隔文本：引号内可包含分隔符与换行，两个连续引号表示一个引号
+ */
+export function parseDelimitedText(
+  text: string,
+  options: DelimitedTextOptions,
+  maxRows = Infinity
+): string[][] {
+  const { delimiter, quote } = options
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+  let i = 0
+
+  const endRow = () => {
+    row.push(field)
+    rows.push(row)
+    row = []
+    field = ''
+  }
+
+  while (i < text.length && rows.length < maxRows) {
+    const char = text[i]
+    if (inQuotes) {
+      if (char === quote) {
+        if (text[i + 1] === quote) {
+          field += quote
+          i += 2
+          continue
+        }
+        inQuotes = false
+      } else {
+        field += char
+      }
+      i++
+      continue
+    }
+
+    if (char === quote && field === '') {
+      inQuotes = true
+    } else if (char === delimiter) {
+      row.push(field)
+      field = ''
+    } else if (char === '\r' || char === '\n') {
+      endRow()
+      if (char === '\r' && text[i + 1] === '\n') i++
+    } else {
+      field += char
+    }
+    i++
+  }
+  if ((field !== '' || row.length > 0) && rows.length < maxRows) {
+    endRow()
+  }
+
+  // 去掉末尾空行
+  while (rows.length > 0 && rows[rows.length - 1].every(value => value === '')) {
+    rows.pop()
+  }
+  return rows
+}
+
+/**
+ * 识别分隔符与引号：取前若干行，选择各行字段数最一致且最多的分隔符
+ */
+export function detectDelimitedTextOptions(text: string, fileName?: string): DelimitedTextOptions {
+  const quote = detectQuote(text)
+  if (fileName?.toLowerCase().endsWith('.tsv')) {
+    return { delimiter: '\t', quote }
+  }
+
+  let best = { delimiter: ',', score: -1, fields: 0 }
+  DELIMITER_CANDIDATES.forEach(delimiter => {
+    const rows = parseDelimitedText(text, { delimiter, quote }, SAMPLE_ROWS)
+    const fields = rows[0]?.length ?? 0
+    if (fields < 2) return
+    const score = rows.filter(row => row.length === fields).length
+    if (score > best.score || (score === best.score && fields > best.fields)) {
+      best = { delimiter, score, fields }
+    }
+  })
+  return { delimiter: best.delimiter, quote }
+}
+
+// 字段以单引号包裹且没有双引号包裹的字段时，按单引号解析
+function detectQuote(text: string): string {
+  const sample = text.slice(0, 4096)
+  const doubleQuoted = /(^|[,\t;|])"/m.test(sample)
+  const singleQuoted = /(^|[,\t;|])'[^'\r\n]*'([,\t;|]|$)/m.test(sample)
+  return singleQuoted && !doubleQuoted ? "'" : '"'
+}
+
+// ==================== JSON ====================
+
+/**
+ * 将嵌套对象展开为以点号连接的键，如 { receiver: { name } } → receiver.name
+ */
+function flattenRecord(
+  value: unknown,
+  prefix: string,
+  result: Record<string, string | number>
+): Record<string, string | number> {
+  if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+    const entries = Object.entries(value)
+    if (entries.length === 0 && prefix) result[prefix] = ''
+    entries.forEach(([key, child]) => {
+      flattenRecord(child, prefix ? `${prefix}.${key}` : key, result)
+    })
+    return result
+  }
+  result[prefix || '值'] = toCellValue(value)
+  return result
+}
+
+function toCellValue(value: unknown): string | number {
+  if (value === null || value === undefined) return ''
+  if (typeof value === 'number' || typeof value === 'string') return value
+  if (typeof value === 'boolean') return value ? '是' : '否'
+  if (Array.isArray(value)) {
+    // 基本类型数组拼接显示，对象数组保留 JSON 文本
+    return value.every(item => item === null || typeof item !== 'object')
+      ? value.map(item => toCellValue(item)).join(', ')
+      : JSON.stringify(value)
+  }
+  return String(value)
+}
+
+/**
+ * 解析 JSON 对象数组，列按首次出现的顺序排列，缺失的字段填充为空
+ */
+export function parseJsonColumns(text: string): DataColumn[] {
+  let json: unknown
+  try {
+    json = JSON.parse(text)
+  } catch {
+    throw new Error('JSON 格式错误')
+  }
+  if (!Array.isArray(json)) {
+    throw new Error('JSON 数据必须是对象数组')
+  }
+
+  const records = json.map(item => flattenRecord(item, '', {}))
+  const columns = new Map<string, DataColumn>()
+  records.forEach(record => {
+    Object.keys(record).forEach(name => {
+      if (!columns.has(name)) columns.set(name, { name, data: [] })
+    })
+  })
+  columns.forEach(column => {
+    column.data = records.map(record => record[column.name] ?? '')
+  })
+  return Array.from(columns.values())
+}
@@ -0,0 +1,135 @@
+import type { DataColumn, DataSource, MergedRange } from '@/types'
+import { inferColumnType } from '@/utils/format'
+import * as XLSX from 'xlsx'
+
+/**
+ * 数据管理表格的编辑操作：直接修改传入的数据源，合并单元格区域（行号含首尾）随行的增删调整
+ */
+
+export type DataExportType = 'xlsx' | 'csv'
+
+export function getRowCount(dataSource: DataSource): number {
+  return Math.max(0, ...dataSource.columns.map(col => col.data.length))
+}
+
+export function findMergedRange(column: DataColumn, row: number): MergedRange | undefined {
+  return column.mergedRanges?.find(range => row >= range.startRow && row <= range.endRow)
+}
+
+/**
+ * 输入的文本转为单元格值：数字按数字保存，以 0 开头的编号保持文本
+ */
+export function parseCellInput(text: string): string | number {
+  const value = text.trim()
+  if (value === '' || /^0\d/.test(value)) return text
+  const number = Number(value)
+  return Number.isFinite(number) && String(number) === value ? number : text
+}
+
+/**
+ * 修改单元格；位于合并区域内时整个区域一起修改
+ */
+export function setCellValue(column: DataColumn, row: number, text: string) {
+  const value = parseCellInput(text)
+  const range = findMergedRange(column, row)
+  if (range) {
+    range.value = value
+    for (let i = range.startRow; i <= range.endRow; i++) column.data[i] = value
+  } else {
+    column.data[row] = value
+  }
+  column.type = inferColumnType(column.data)
+}
+
+/**
+ * 在 index 处插入空行；插在合并区域中间时区域向下延伸，新行取区域的值
+ */
+export function insertRow(dataSource: DataSource, index: number) {
+  dataSource.columns.forEach(column => {
+    let value: string | number = ''
+    column.mergedRanges?.forEach(range => {
+      if (range.startRow >= index) {
+        range.startRow++
+        range.endRow++
+      } else if (range.endRow >= index) {
+        range.endRow++
+        value = range.value
+      }
+    })
+    column.data.splice(index, 0, value)
+  })
+}
+
+/**
+ * 删除多行，合并区域随之收缩，只剩一行的区域不再保留
+ */
+export function deleteRows(dataSource: DataSource, rows: number[]) {
+  const sorted = [...new Set(rows)].sort((a, b) => b - a)
+  dataSource.columns.forEach(column => {
+    sorted.forEach(row => {
+      column.data.splice(row, 1)
+      column.mergedRanges?.forEach(range => {
+        if (range.startRow > row) range.startRow--
+        if (range.endRow >= row) range.endRow--
+      })
+    })
+    if (column.mergedRanges) {
+      column.mergedRanges = column.mergedRanges.filter(range => range.endRow > range.startRow)
+      if (column.mergedRanges.length === 0) delete column.mergedRanges
+    }
+    column.type = inferColumnType(column.data)
+  })
+}
+
+function assertColumnName(dataSource: DataSource, name: string, except?: string) {
+  if (!name) throw new Error('列名不能为空')
+  if (name !== except && dataSource.columns.some(col => col.name === name)) {
+    throw new Error(`列名 "${name}" 已存在`)
+  }
+}
+
+/**
+ * 在 index 处插入空列
+ */
+export function insertColumn(dataSource: DataSource, index: number, name: string) {
+  const columnName = name.trim()
+  assertColumnName(dataSource, columnName)
+  const data = Array.from({ length: getRowCount(dataSource) }, () => '')
+  dataSource.columns.splice(index, 0, { name: columnName, data, type: 'text' })
+}
+
+export function renameColumn(dataSource: DataSource, oldName: string, newName: string) {
+  const columnName = newName.trim()
+  assertColumnName(dataSource, columnName, oldName)
+  const column = dataSource.columns.find(col => col.name === oldName)
+  if (column) column.name = columnName
+}
+
+export function deleteColumn(dataSource: DataSource, name: string) {
+  dataSource.columns = dataSource.columns.filter(col => col.name !== name)
+}
+
+/**
+ * 导出为 xlsx 或 CSV：第一行为列名，xlsx 保留合并单元格
+ */
+export function exportDataSource(dataSource: DataSource, type: DataExportType) {
+  const rowCount = getRowCount(dataSource)
+  const rows = [
+    dataSource.columns.map(col => col.name),
+    ...Array.from({ length: rowCount }, (_, row) =>
+      dataSource.columns.map(col => col.data[row] ?? '')
+    )
+  ]
+  const sheet = XLSX.utils.aoa_to_sheet(rows)
+  sheet['!merges'] = dataSource.columns.flatMap((column, c) =>
+    (column.mergedRanges ?? []).map(range => ({
+      s: { r: range.startRow + 1, c },
+      e: { r: range.endRow + 1, c }
+    }))
+  )
+  const baseName = dataSource.fileName.replace(/\.[^.]+$/, '') || dataSource.fileName
+  const workbook = XLSX.utils.book_new()
+  XLSX.utils.book_append_sheet(workbook, sheet, dataSource.sheetName || 'Sheet1')
+  // 导出的 CSV 带 BOM，Excel 打开时中文不乱码
+  XLSX.writeFile(workbook, `${baseName}.${type}`, { bookType: type })
+}
@@ -0,0 +1,143 @@
+import type { TemplateDataSource, TemplateRelation } from '@/types'
+import { resolveSourceFile } from '@/utils/templateDataSource'
+
+/**
+ * 主从关联：按关联列的值把明细行挂到主记录上，值按去掉首尾空格的文本比较
+ */
+
+export const MISSING_DETAIL_OPTIONS: {
+  label: string
+  value: NonNullable<TemplateRelation['missingDetail']>
+}[] = [
+  { label: '照常打印（明细为空）', value: 'keep' },
+  { label: '跳过该记录', value: 'skip' }
+]
+
+export interface RelationMatchSummary {
+  masterCount: number // 参与关联的主记录数
+  matchedDetailCount: number // 匹配到主记录的明细行数
+  unmatchedMasterKeys: string[] // 没有明细的主记录关联值
+  unmatchedDetailKeys: string[] // 没有对应主记录的明细关联值
+}
+
+/**
+ * 已读取数据的关联，批量打印时按主记录查找明细
+ */
+export interface ResolvedRelation {
+  relation: TemplateRelation
+  masterData: (string | number)[]
+  index: Map<string, number[]>
+}
+
+function getRelationKey(value: string | number | undefined): string {
+  return String(value ?? '').trim()
+}
+
+/**
+ * 明细数据按关联值建立索引，同一关联值的行保持原有顺序
+ */
+export function buildRelationIndex(detailData: (string | number)[]): Map<string, number[]> {
+  const index = new Map<string, number[]>()
+  detailData.forEach((value, row) => {
+    const key = getRelationKey(value)
+    if (!key) return
+    const rows = index.get(key)
+    if (rows) rows.push(row)
+    else index.set(key, [row])
+  })
+  return index
+}
+
+/**
+ * 主记录对应的明细行：多条主记录（分组打印）依次合并各自的明细，关联值为空的主记录没有明细
+ */
+export function getDetailRows(
+  masterRows: number[],
+  masterData: (string | number)[],
+  index: Map<string, number[]>
+): number[] {
+  const keys = new Set(masterRows.map(row => getRelationKey(masterData[row])).filter(Boolean))
+  return [...keys].flatMap(key => index.get(key) ?? [])
+}
+
+/**
+ * 批量打印中生效的关联：主数据源为批量打印的数据源
+ * @param readColumn 读取模板数据源中的列，列名按模板字段映射
+ */
+export function resolveBatchRelations(
+  relations: TemplateRelation[] | undefined,
+  sources: TemplateDataSource[],
+  batchPrintFile: string,
+  readColumn: (sourceName: string, column: string) => (string | number)[]
+): ResolvedRelation[] {
+  return normalizeTemplateRelations(
+    relations,
+    sources.map(source => source.name)
+  )
+    .filter(relation => resolveSourceFile(sources, relation.master) === batchPrintFile)
+    .map(relation => ({
+      relation,
+      masterData: readColumn(relation.master, relation.masterColumn),
+      index: buildRelationIndex(readColumn(relation.detail, relation.detailColumn))
+    }))
+}
+
+/**
+ * 去掉需要跳过的主记录：关联设置为跳过且没有明细的记录（分组打印时为整组）不打印
+ */
+export function filterSkippedMasters(
+  groups: number[][],
+  relations: ResolvedRelation[]
+): number[][] {
+  const skipping = relations.filter(item => item.relation.missingDetail === 'skip')
+  if (skipping.length === 0) return groups
+  return groups.filter(group =>
+    skipping.every(item => getDetailRows(group, item.masterData, item.index).length > 0)
+  )
+}
+
+/**
+ * 关联匹配情况，用于在配置关联时预览未匹配的关联值
+ */
+export function summarizeRelation(
+  masterRows: number[],
+  masterData: (string | number)[],
+  detailData: (string | number)[]
+): RelationMatchSummary {
+  const index = buildRelationIndex(detailData)
+  const masterKeys = new Set<string>()
+  const unmatchedMasterKeys = new Set<string>()
+  let matchedDetailCount = 0
+  masterRows.forEach(row => {
+    const key = getRelationKey(masterData[row])
+    if (masterKeys.has(key)) return
+    masterKeys.add(key)
+    const details = key ? index.get(key) : undefined
+    if (details) matchedDetailCount += details.length
+    else unmatchedMasterKeys.add(key)
+  })
+  return {
+    masterCount: masterRows.length,
+    matchedDetailCount,
+    unmatchedMasterKeys: [...unmatchedMasterKeys],
+    unmatchedDetailKeys: [...index.keys()].filter(key => !masterKeys.has(key))
+  }
+}
+
+/**
+ * 去掉引用未声明数据源或缺少关联列的关联
+ */
+export function normalizeTemplateRelations(
+  relations: TemplateRelation[] | null | undefined,
+  sourceNames: string[]
+): TemplateRelation[] {
+  return (relations ?? [])
+    .filter(
+      relation =>
+        sourceNames.includes(relation.master) &&
+        sourceNames.includes(relation.detail) &&
+        relation.masterColumn &&
+        relation.detailColumn
+    )
+    .map(relation => ({ ...relation }))
+}
@@ -0,0 +1,282 @@
+import { GS1_SEPARATOR, gs1ElementString, parseGS1 } from '@/utils/gs1'
+
+/**
+ * Data Matrix (ECC200) 编码结果
+ * modules[y][x] 为 true 表示深色模块，不含静区
+ */
+export interface DataMatrixSymbol {
+  size: number
+  gs1: boolean
+  modules: boolean[][]
+}
+
+interface DataMatrixSize {
+  size: number // 符号边长（模块）
+  regionSize: number // 单个数据区边长
+  regions: number // 每边数据区个数
+  dataCodewords: number
+  eccCodewords: number
+  blocks: number
+}
+
+// 正方形符号规格（ISO/IEC 16022 表 7）
+// prettier-ignore
+const SYMBOL_SIZES: DataMatrixSize[] = [
+  [10, 8, 1, 3, 5, 1], [12, 10, 1, 5, 7, 1], [14, 12, 1, 8, 10, 1], [16, 14, 1, 12, 12, 1],
+  [18, 16, 1, 18, 14, 1], [20, 18, 1, 22, 18, 1], [22, 20, 1, 30, 20, 1], [24, 22, 1, 36, 24, 1],
+  [26, 24, 1, 44, 28, 1], [32, 14, 2, 62, 36, 1], [36, 16, 2, 86, 42, 1], [40, 18, 2, 114, 48, 1],
+  [44, 20, 2, 144, 56, 1], [48, 22, 2, 174, 68, 1], [52, 24, 2, 204, 84, 2], [64, 14, 4, 280, 112, 2],
+  [72, 16, 4, 368, 144, 4], [80, 18, 4, 456, 192, 4], [88, 20, 4, 576, 224, 4], [96, 22, 4, 696, 272, 4],
+  [104, 24, 4, 816, 336, 6], [120, 18, 6, 1050, 408, 6], [132, 20, 6, 1304, 496, 8], [144, 22, 6, 1558, 620, 10]
+].map(([size, regionSize, regions, dataCodewords, eccCodewords, blocks]) => ({
+  size, regionSize, regions, dataCodewords, eccCodewords, blocks
+}))
+
+const PAD = 129
+const UPPER_SHIFT = 235
+const FNC1 = 232
+const ECI = 241
+const ECI_UTF8 = 26
+
+// ---------------- 数据编码（ASCII 模式） ----------------
+
+function encodeAscii(bytes: number[], gs1: boolean): number[] {
+  const codewords: number[] = gs1 ? [FNC1] : []
+  const isDigit = (byte: number) => byte >= 0x30 && byte <= 0x39
+  for (let i = 0; i < bytes.length; i++) {
+    const byte = bytes[i]
+    if (gs1 && byte === GS1_SEPARATOR.charCodeAt(0)) {
+      codewords.push(FNC1)
+    } else if (isDigit(byte) && i + 1 < bytes.length && isDigit(bytes[i + 1])) {
+      // 两位数字压缩为一个码字
+      codewords.push(130 + (byte - 0x30) * 10 + (bytes[i + 1] - 0x30))
+      i++
+    } else if (byte > 127) {
+      codewords.push(UPPER_SHIFT, byte - 128 + 1)
+    } else {
+      codewords.push(byte + 1)
+    }
+  }
+  return codewords
+}
+
+// 253 状态随机化填充
+function pad(codewords: number[], capacity: number): number[] {
+  const result = codewords.slice()
+  if (result.length < capacity) result.push(PAD)
+  while (result.length < capacity) {
+    const position = result.length + 1
+    let value = PAD + ((149 * position) % 253) + 1
+    if (value > 254) value -= 254
+    result.push(value)
+  }
+  return result
+}
+
+// ---------------- Reed-Solomon（GF(256)，本原多项式 0x12D） ----------------
+
+const GF_EXP: number[] = []
+const GF_LOG: number[] = []
+;(() => {
+  let x = 1
+  for (let i = 0; i < 255; i++) {
+    GF_EXP[i] = x
+    GF_LOG[x] = i
+    x <<= 1
+    if (x & 0x100) x ^= 0x12d
+  }
+})()
+
+function gfMultiply(a: number, b: number): number {
+  if (a === 0 || b === 0) return 0
+  return GF_EXP[(GF_LOG[a] + GF_LOG[b]) % 255]
+}
+
+// 生成多项式系数（高次在前，首项系数 1 省略），根为 α^1..α^degree
+function generatorPolynomial(degree: number): number[] {
+  let poly = [1]
+  for (let i = 1; i <= degree; i++) {
+    const next = new Array(poly.length + 1).fill(0)
+    poly.forEach((coef, j) => {
+      next[j] ^= coef
+      next[j + 1] ^= gfMultiply(coef, GF_EXP[i])
+    })
+    poly = next
+  }
+  return poly.slice(1)
+}
+
+function reedSolomon(data: number[], degree: number): number[] {
+  const generator = generatorPolynomial(degree)
+  const remainder = new Array(degree).fill(0)
+  for (const byte of data) {
+    const factor = byte ^ remainder.shift()
+    remainder.push(0)
+    generator.forEach((coef, i) => {
+      remainder[i] ^= gfMultiply(coef, factor)
+    })
+  }
+  return remainder
+}
+
+// 数据按码字序号对块数取模交错分块，纠错码同样交错写回；
+// 144×144 的前 8 块比后 2 块多一个数据码字，纠错码接着数据末尾的块继续轮转，从第 8 块开始
+function addErrorCorrection(data: number[], spec: DataMatrixSize): number[] {
+  const eccPerBlock = spec.eccCodewords / spec.blocks
+  const ecc = new Array(spec.eccCodewords).fill(0)
+  const offset = data.length % spec.blocks
+  for (let block = 0; block < spec.blocks; block++) {
+    const blockData = data.filter((_, i) => i % spec.blocks === block)
+    const column = (block - offset + spec.blocks) % spec.blocks
+    reedSolomon(blockData, eccPerBlock).forEach((value, i) => {
+      ecc[i * spec.blocks + column] = value
+    })
+  }
+  return data.concat(ecc)
+}
+
+// ---------------- 模块排布（ECC200 标准算法） ----------------
+
+function placeCodewords(codewords: number[], nrow: number, ncol: number): boolean[][] {
+  const grid: (boolean | null)[][] = Array.from({ length: nrow }, () => new Array(ncol).fill(null))
+
+  const module = (row: number, col: number, index: number, bit: number) => {
+    if (row < 0) {
+      row += nrow
+      col += 4 - ((nrow + 4) % 8)
+    }
+    if (col < 0) {
+      col += ncol
+      row += 4 - ((ncol + 4) % 8)
+    }
+    // bit 1 为最高位
+    grid[row][col] = ((codewords[index] >> (8 - bit)) & 1) === 1
+  }
+
+  const utah = (row: number, col: number, index: number) => {
+    module(row - 2, col - 2, index, 1)
+    module(row - 2, col - 1, index, 2)
+    module(row - 1, col - 2, index, 3)
+    module(row - 1, col - 1, index, 4)
+    module(row - 1, col, index, 5)
+    module(row, col - 2, index, 6)
+    module(row, col - 1, index, 7)
+    module(row, col, index, 8)
+  }
+
+  const corner = (index: number, positions: Array<[number, number]>) => {
+    positions.forEach(([row, col], i) => module(row, col, index, i + 1))
+  }
+
+  let index = 0
+  let row = 4
+  let col = 0
+  do {
+    if (row === nrow && col === 0) {
+      corner(index++, [
+        [nrow - 1, 0], [nrow - 1, 1], [nrow - 1, 2], [0, ncol - 2],
+        [0, ncol - 1], [1, ncol - 1], [2, ncol - 1], [3, ncol - 1]
+      ]) // prettier-ignore
+    }
+    if (row === nrow - 2 && col === 0 && ncol % 4 !== 0) {
+      corner(index++, [
+        [nrow - 3, 0], [nrow - 2, 0], [nrow - 1, 0], [0, ncol - 4],
+        [0, ncol - 3], [0, ncol - 2], [0, ncol - 1], [1, ncol - 1]
+      ]) // prettier-ignore
+    }
+    if (row === nrow - 2 && col === 0 && ncol % 8 === 4) {
+      corner(index++, [
+        [nrow - 3, 0], [nrow - 2, 0], [nrow - 1, 0], [0, ncol - 2],
+        [0, ncol - 1], [1, ncol - 1], [2, ncol - 1], [3, ncol - 1]
+      ]) // prettier-ignore
+    }
+    if (row === nrow + 4 && col === 2 && ncol % 8 === 0) {
+      corner(index++, [
+        [nrow - 1, 0], [nrow - 1, ncol - 1], [0, ncol - 3], [0, ncol - 2],
+        [0, ncol - 1], [1, ncol - 3], [1, ncol - 2], [1, ncol - 1]
+      ]) // prettier-ignore
+    }
+    // 斜向上
+    do {
+      if (row < nrow && col >= 0 && grid[row][col] === null) utah(row, col, index++)
+      row -= 2
+      col += 2
+    } while (row >= 0 && col < ncol)
+    row += 1
+    col += 3
+    // 斜向下
+    do {
+      if (row >= 0 && col < ncol && grid[row][col] === null) utah(row, col, index++)
+      row += 2
+      col -= 2
+    } while (row < nrow && col >= 0)
+    row += 3
+    col += 1
+  } while (row < nrow || col < ncol)
+
+  // 右下角未填充时使用固定图案
+  if (grid[nrow - 1][ncol - 1] === null) {
+    grid[nrow - 1][ncol - 1] = true
+    grid[nrow - 2][ncol - 2] = true
+    grid[nrow - 1][ncol - 2] = false
+    grid[nrow - 2][ncol - 1] = false
+  }
+
+  return grid.map(line => line.map(cell => cell === true))
+}
+
+// 将数据区映射到带寻像图形（左、下实线，上、右虚线）的完整符号
+function buildSymbol(data: boolean[][], spec: DataMatrixSize): boolean[][] {
+  const { size, regionSize, regions } = spec
+  const modules = Array.from({ length: size }, () => new Array(size).fill(false))
+  const block = regionSize + 2
+
+  for (let regionRow = 0; regionRow < regions; regionRow++) {
+    for (let regionCol = 0; regionCol < regions; regionCol++) {
+      const top = regionRow * block
+      const left = regionCol * block
+      for (let i = 0; i < block; i++) {
+        modules[top + block - 1][left + i] = true // 下边实线
+        modules[top + i][left] = true // 左边实线
+        modules[top][left + i] = i % 2 === 0 // 上边虚线
+        modules[top + i][left + block - 1] = i % 2 === 1 // 右边虚线
+      }
+      for (let y = 0; y < regionSize; y++) {
+        for (let x = 0; x < regionSize; x++) {
+          modules[top + 1 + y][left + 1 + x] =
+            data[regionRow * regionSize + y][regionCol * regionSize + x]
+        }
+      }
+    }
+  }
+  return modules
+}
+
+/**
+ * 将文本编码为 Data Matrix (ECC200) 正方形符号
+ * 以 (AI) 开头时按 GS1 Data Matrix 处理（FNC1 起始，AI 校验），非 ASCII 字符以 UTF-8 ECI 编码
+ */
+export function encodeDataMatrix(text: string): DataMatrixSymbol {
+  if (text === '') {
+    throw new Error('Data Matrix 内容不能为空')
+  }
+
+  const gs1 = /^\(\d{2,4}\)/.test(text.trim())
+  const source = gs1 ? gs1ElementString(parseGS1(text)) : text
+  const bytes = Array.from(new TextEncoder().encode(source))
+  let codewords = encodeAscii(bytes, gs1)
+  if (bytes.some(byte => byte > 127)) {
+    codewords = [ECI, ECI_UTF8 + 1, ...codewords]
+  }
+
+  const spec = SYMBOL_SIZES.find(item => item.dataCodewords >= codewords.length)
+  if (!spec) {
+    throw new Error('Data Matrix 内容过长，最多约 3116 位数字或 1556 个 ASCII 字符')
+  }
+
+  const all = addErrorCorrection(pad(codewords, spec.dataCodewords), spec)
+  const mappingSize = spec.regionSize * spec.regions
+  const data = placeCodewords(all, mappingSize, mappingSize)
+
+  return { size: spec.size, gs1, modules: buildSymbol(data, spec) }
+}
@@ -0,0 +1,117 @@
+import type { DataColumn, DataSource, DerivedColumn } from '@/types'
+import { buildRelationIndex } from '@/utils/dataRelation'
+import { getRowCount } from '@/utils/dataGrid'
+import { evaluateColumnExpression, validateColumnExpression } from '@/utils/expression'
+import { inferColumnType } from '@/utils/format'
+
+/**
+ * 数据源的派生列：计算列按表达式逐行求值，查找列按关联值从另一个数据源取值；
+ * 计算结果与原始列一起保存在 columns 中，绑定时与原始列没有区别
+ */
+
+export type DataSourceFinder = (fileName: string) => DataSource | undefined
+
+export const DERIVED_COLUMN_TYPE_LABELS: Record<DerivedColumn['type'], string> = {
+  expression: '计算列',
+  lookup: '查找列'
+}
+
+export function getNativeColumns(dataSource: DataSource): DataColumn[] {
+  return dataSource.columns.filter(col => !col.derived)
+}
+
+// 查找列：关联值按去掉首尾空格的文本比较，匹配多行时取第一行
+function lookupValues(
+  definition: Extract<DerivedColumn, { type: 'lookup' }>,
+  keys: (string | number)[],
+  findDataSource: DataSourceFinder
+): (string | number)[] {
+  const lookup = findDataSource(definition.lookupFile)
+  const lookupKey = lookup?.columns.find(col => col.name === definition.lookupKeyColumn)
+  const lookupColumn = lookup?.columns.find(col => col.name === definition.lookupColumn)
+  if (!lookupKey || !lookupColumn) return keys.map(() => '')
+  const index = buildRelationIndex(lookupKey.data)
+  return keys.map(key => {
+    const row = index.get(String(key ?? '').trim())?.[0]
+    return row === undefined ? '' : (lookupColumn.data[row] ?? '')
+  })
+}
+
+/**
+ * 按定义顺序重新计算派生列，后面的定义可以引用前面的派生列；
+ * 与原始列重名的定义不计算，派生列上用户指定的类型保留
+ */
+export function computeDerivedColumns(
+  dataSource: DataSource,
+  findDataSource: DataSourceFinder
+): DataSource {
+  const columns = getNativeColumns(dataSource)
+  const rowCount = getRowCount({ ...dataSource, columns })
+  const readColumn = (name: string) => columns.find(col => col.name === name)?.data ?? []
+
+  dataSource.derivedColumns?.forEach(definition => {
+    if (columns.some(col => col.name === definition.name)) return
+    let data: (string | number)[]
+    if (definition.type === 'expression') {
+      try {
+        data = evaluateColumnExpression(definition.expression, readColumn, rowCount)
+      } catch {
+        data = Array.from({ length: rowCount }, () => '')
+      }
+    } else {
+      const keyData = readColumn(definition.keyColumn)
+      const keys = Array.from({ length: rowCount }, (_, row) => keyData[row])
+      data = lookupValues(definition, keys, findDataSource)
+    }
+    const previous = dataSource.columns.find(col => col.name === definition.name && col.derived)
+    columns.push({
+      name: definition.name,
+      data,
+      type: inferColumnType(data),
+      derived: true,
+      ...(previous?.typeOverride ? { typeOverride: previous.typeOverride } : {})
+    })
+  })
+  return { ...dataSource, columns }
+}
+
+/**
+ * 检查派生列定义，返回第一处错误；表达式与关联列只能引用原始列与排在前面的派生列
+ */
+export function validateDerivedColumns(
+  dataSource: DataSource,
+  definitions: DerivedColumn[],
+  findDataSource: DataSourceFinder
+): string | null {
+  const available = getNativeColumns(dataSource).map(col => col.name)
+  for (const definition of definitions) {
+    const name = definition.name.trim()
+    if (!name) return '列名不能为空'
+    if (available.includes(name)) return `列名 "${name}" 已存在`
+
+    if (definition.type === 'expression') {
+      if (!definition.expression.trim()) return `${name}：表达式不能为空`
+      const error = validateColumnExpression(definition.expression, available)
+      if (error) return `${name}：${error}`
+    } else {
+      if (!available.includes(definition.keyColumn)) return `${name}：请选择关联列`
+      if (definition.lookupFile === dataSource.fileName) return `${name}：不能查找数据源自身`
+      const lookup = findDataSource(definition.lookupFile)
+      if (!lookup) return `${name}：请选择查找的数据源`
+      const lookupNames = lookup.columns.map(col => col.name)
+      if (!lookupNames.includes(definition.lookupKeyColumn)) return `${name}：请选择匹配列`
+      if (!lookupNames.includes(definition.lookupColumn)) return `${name}：请选择取值列`
+    }
+    available.push(name)
+  }
+  return null
+}
+
+/**
+ * 查找列引用了该数据文件的数据源
+ */
+export function isLookupDependent(dataSource: DataSource, fileName: string): boolean {
+  return !!dataSource.derivedColumns?.some(
+    definition => definition.type === 'lookup' && definition.lookupFile === fileName
+  )
+}
@@ -0,0 +1,89 @@
+import type { ExcelImportOptions } from '@/types'
+import type { ParseResult } from '@/utils/excelParser'
+import type { ExcelWorkerResponse, ExcelWorkerTask } from '@/utils/excelParserWorker'
+
+/**
+ * 在 Web Worker 中解析数据文件，页面在读取大文件时保持响应；
+ * 取消时直接结束 Worker，之后需要重新 open 才能继续预览或解析
+ */
+
+interface PendingRequest {
+  resolve: (result: unknown) => void
+  reject: (error: Error) => void
+  onProgress?: (done: number, total: number) => void
+}
+
+export interface ExcelImportSession {
+  open(): Promise<string[]> // 读取文件，返回工作表名称
+  getSheetPreview(sheetName: string, maxRows?: number): Promise<(string | number)[][]>
+  getColumnNames(options: ExcelImportOptions): Promise<string[]>
+  parse(
+    options: ExcelImportOptions,
+    onProgress?: (done: number, total: number) => void
+  ): Promise<ParseResult>
+  cancel(): void
+}
+
+export function createExcelImportSession(file: File): ExcelImportSession {
+  let worker: Worker | null = null
+  let nextId = 0
+  const pending = new Map<number, PendingRequest>()
+
+  function rejectAll(error: Error) {
+    pending.forEach(request => request.reject(error))
+    pending.clear()
+  }
+
+  function getWorker(): Worker {
+    if (worker) return worker
+    worker = new Worker(new URL('./excelParserWorker.ts', import.meta.url), { type: 'module' })
+    worker.addEventListener('message', (event: MessageEvent<ExcelWorkerResponse>) => {
+      const response = event.data
+      const request = pending.get(response.id)
+      if (!request) return
+      if (response.type === 'progress') {
+        request.onProgress?.(response.done, response.total)
+        return
+      }
+      pending.delete(response.id)
+      if (response.type === 'result') request.resolve(response.result)
+      else request.reject(new Error(response.message))
+    })
+    worker.addEventListener('error', event => {
+      console.error('数据文件解析 Worker 出错:', event)
+      rejectAll(new Error(event.message || '文件解析失败'))
+    })
+    return worker
+  }
+
+  function send<T>(
+    task: ExcelWorkerTask,
+    transfer: Transferable[] = [],
+    onProgress?: PendingRequest['onProgress']
+  ): Promise<T> {
+    const id = ++nextId
+    return new Promise<T>((resolve, reject) => {
+      pending.set(id, { resolve: result => resolve(result as T), reject, onProgress })
+      getWorker().postMessage({ ...task, id }, transfer)
+    })
+  }
+
+  async function open(): Promise<string[]> {
+    const buffer = await file.arrayBuffer()
+    return send<string[]>({ type: 'open', fileName: file.name, buffer }, [buffer])
+  }
+
+  function cancel() {
+    worker?.terminate()
+    worker = null
+    rejectAll(new Error('已取消'))
+  }
+
+  return {
+    open,
+    getSheetPreview: (sheetName, maxRows) => send({ type: 'preview', sheetName, maxRows }),
+    getColumnNames: options => send({ type: 'columns', options }),
+    parse: (options, onProgress) => send({ type: 'parse', options }, [], onProgress),
+    cancel
+  }
+}
@@ -0,0 +1,339 @@
+import type { DataColumn, DataSource, ExcelImportOptions, MergedRange } from '@/types'
+import {
+  decodeText,
+  detectDelimitedTextOptions,
+  getDataFileType,
+  parseDelimitedText
+} from '@/utils/dataFile'
+import { inferColumnType } from '@/utils/format'
+import * as XLSX from 'xlsx'
+
+/**
+ * 工作簿解析：在 Web Worker 中运行（见 excelParserWorker.ts），不依赖页面与 store
+ */
+
+// 多行表头拼接列名时使用的分隔符
+const HEADER_SEPARATOR = '-'
+
+// CSV/TSV 转换为工作簿时的工作表名称
+const TEXT_SHEET_NAME = 'Sheet1'
+
+// 每解析多少行报告一次进度
+const PROGRESS_INTERVAL = 2000
+
+/**
+ * 解析中出现问题的行，行号与 Excel 中显示的一致（从 1 开始）
+ */
+export interface ParseIssue {
+  row: number
+  column?: string
+  message: string
+}
+
+export interface ParseResult {
+  dataSource: DataSource
+  issues: ParseIssue[]
+}
+
+// 按行号查找合并单元格
+type MergeLookup = (row: number, col: number) => XLSX.Range | undefined
+
+// 格式化日期为字符串
+function formatDate(date: Date): string {
+  const year = date.getFullYear()
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${year}-${month}-${day}`
+}
+
+// 格式化单元格值，处理日期等特殊类型
+function formatCellValue(cell: XLSX.CellObject | undefined): string | number {
+  if (!cell) return ''
+
+  // 处理日期类型
+  // Excel 日期以数字存储（距离1900-01-01的天数）
+  // t='d' 表示日期，t='n' 可能也是日期（如果有日期格式）
+  if (cell.t === 'd' && cell.v instanceof Date) {
+    // 直接是日期对象
+    return formatDate(cell.v)
+  }
+
+  // 数字格式为日期格式时按日期序号转换，其余数字不猜测是否为日期
+  if (cell.t === 'n' && typeof cell.v === 'number' && cell.z && XLSX.SSF.is_date(cell.z)) {
+    const date = XLSX.SSF.parse_date_code(cell.v)
+    if (date) {
+      return `${date.y}-${String(date.m).padStart(2, '0')}-${String(date.d).padStart(2, '0')}`
+    }
+  }
+
+  // 如果有格式化后的文本 w，优先使用（保留 Excel 中显示的格式）
+  if (cell.w !== undefined) {
+    return cell.w
+  }
+
+  // 处理其他类型
+  const value = cell.v
+  if (value === undefined || value === null) return ''
+  if (typeof value === 'boolean') return value ? '是' : '否'
+  if (typeof value === 'string' || typeof value === 'number') return value
+  if (value instanceof Date) return formatDate(value)
+  return String(value)
+}
+
+// 检查某行是否为空行（所有单元格都为空或只有空格）
+function isEmptyRow(sheet: XLSX.WorkSheet, row: number, startCol: number, endCol: number): boolean {
+  for (let col = startCol; col <= endCol; col++) {
+    const cellAddress = XLSX.utils.encode_cell({ r: row, c: col })
+    const cell = sheet[cellAddress]
+    if (cell && cell.v !== undefined && cell.v !== null) {
+      const value = String(cell.v).trim()
+      if (value !== '') {
+        return false
+      }
+    }
+  }
+  return true
+}
+
+// 智能检测实际数据范围，找到最后一个非空行
+function detectActualRange(sheet: XLSX.WorkSheet, range: XLSX.Range, startRow: number): number {
+  // 从最后一行向前扫描，找到第一个非空行
+  for (let row = range.e.r; row >= startRow; row--) {
+    if (!isEmptyRow(sheet, row, range.s.c, range.e.c)) {
+      return row
+    }
+  }
+  return startRow - 1 // 只有表头
+}
+
+/**
+ * 合并单元格按所在行建立索引，查找时只比较覆盖该行的合并区域
+ */
+function createMergeLookup(merges: XLSX.Range[]): MergeLookup {
+  const rows = new Map<number, XLSX.Range[]>()
+  merges.forEach(merge => {
+    for (let row = merge.s.r; row <= merge.e.r; row++) {
+      const list = rows.get(row)
+      if (list) list.push(merge)
+      else rows.set(row, [merge])
+    }
+  })
+  return (row, col) => rows.get(row)?.find(merge => col >= merge.s.c && col <= merge.e.c)
+}
+
+// 读取单元格的值，位于合并单元格内时取合并区域左上角的值
+function getMergedCellValue(
+  sheet: XLSX.WorkSheet,
+  findMerge: MergeLookup,
+  row: number,
+  col: number
+): string | number {
+  const merge = findMerge(row, col)
+  const address = XLSX.utils.encode_cell(merge ? merge.s : { r: row, c: col })
+  return formatCellValue(sheet[address])
+}
+
+/**
+ * 列标题：多行表头自上而下拼接，上方的合并单元格对其覆盖的每一列生效；
+ * 最后一行只取单元格自身的值，避免横向合并的表头产生重名列
+ */
+function getColumnName(
+  sheet: XLSX.WorkSheet,
+  findMerge: MergeLookup,
+  col: number,
+  options: ExcelImportOptions
+): string {
+  const { headerRow, headerRowCount } = options
+  const titleParts: string[] = []
+  for (let row = headerRow; row < headerRow + headerRowCount; row++) {
+    const isLastHeaderRow = row === headerRow + headerRowCount - 1
+    const value = isLastHeaderRow
+      ? formatCellValue(sheet[XLSX.utils.encode_cell({ r: row, c: col })])
+      : getMergedCellValue(sheet, findMerge, row, col)
+    const text = String(value).trim()
+    if (text && titleParts[titleParts.length - 1] !== text) {
+      titleParts.push(text)
+    }
+  }
+  return titleParts.length > 0 ? titleParts.join(HEADER_SEPARATOR) : `列${col + 1}`
+}
+
+/**
+ * 读取为工作簿：CSV/TSV 转换为单个工作表，与 Excel 共用工作表与表头选择流程
+ */
+export function readWorkbook(data: ArrayBuffer, fileName: string): XLSX.WorkBook {
+  let workbook: XLSX.WorkBook
+  if (getDataFileType(fileName) === 'delimited') {
+    const { text, encoding } = decodeText(data)
+    const options = detectDelimitedTextOptions(text, fileName)
+    console.log('开始解析文本文件:', fileName, '编码:', encoding, '分隔符:', options)
+    // 文本数据保持字符串，避免编号等内容丢失前导零
+    workbook = XLSX.utils.book_new()
+    XLSX.utils.book_append_sheet(
+      workbook,
+      XLSX.utils.aoa_to_sheet(parseDelimitedText(text, options)),
+      TEXT_SHEET_NAME
+    )
+  } else {
+    console.log('开始解析 Excel 文件:', fileName)
+    // 使用 cellDates 选项让 xlsx 自动解析日期
+    workbook = XLSX.read(data, {
+      type: 'array',
+      cellDates: true, // 启用日期解析
+      cellNF: true, // 保留数字格式
+      cellText: true // 生成格式化文本
+    })
+  }
+  console.log('工作表列表:', workbook.SheetNames)
+  if (workbook.SheetNames.length === 0) {
+    throw new Error('Excel 文件为空')
+  }
+  return workbook
+}
+
+/**
+ * 工作表前若干行的显示值，用于选择表头行与数据起始行
+ */
+export function getSheetPreview(
+  workbook: XLSX.WorkBook,
+  sheetName: string,
+  maxRows = 20
+): (string | number)[][] {
+  const sheet = workbook.Sheets[sheetName]
+  if (!sheet?.['!ref']) return []
+  const range = XLSX.utils.decode_range(sheet['!ref'])
+  const rows: (string | number)[][] = []
+  for (let row = 0; row <= Math.min(range.e.r, maxRows - 1); row++) {
+    const values: (string | number)[] = []
+    for (let col = 0; col <= range.e.c; col++) {
+      values.push(formatCellValue(sheet[XLSX.utils.encode_cell({ r: row, c: col })]))
+    }
+    rows.push(values)
+  }
+  return rows
+}
+
+/**
+ * 按导入设置预览列名
+ */
+export function getColumnNames(workbook: XLSX.WorkBook, options: ExcelImportOptions): string[] {
+  const sheet = workbook.Sheets[options.sheetName]
+  if (!sheet?.['!ref']) return []
+  const range = XLSX.utils.decode_range(sheet['!ref'])
+  const findMerge = createMergeLookup(sheet['!merges'] || [])
+  const names: string[] = []
+  for (let col = range.s.c; col <= range.e.c; col++) {
+    names.push(getColumnName(sheet, findMerge, col, options))
+  }
+  return names
+}
+
+/**
+ * 按导入设置逐行读取数据；单元格为公式错误或整行读取失败时该处留空并记录问题
+ * @param onProgress 已读取的行数与总行数
+ */
+export function parseSheet(
+  workbook: XLSX.WorkBook,
+  fileName: string,
+  options: ExcelImportOptions,
+  onProgress?: (done: number, total: number) => void
+): ParseResult {
+  const { sheetName, headerRow, headerRowCount, dataStartRow } = options
+  const sheet = workbook.Sheets[sheetName]
+  if (!sheet) {
+    throw new Error(`工作表 "${sheetName}" 不存在`)
+  }
+  if (!sheet['!ref']) {
+    throw new Error(`工作表 "${sheetName}" 为空`)
+  }
+  if (headerRow < 0 || headerRowCount < 0 || dataStartRow < headerRow + headerRowCount) {
+    throw new Error('数据起始行必须在表头之后')
+  }
+
+  const range = XLSX.utils.decode_range(sheet['!ref'])
+  const merges = sheet['!merges'] || []
+  const findMerge = createMergeLookup(merges)
+
+  // 智能检测实际数据的最后一行
+  const actualEndRow = detectActualRange(sheet, range, dataStartRow)
+  const total = Math.max(0, actualEndRow - dataStartRow + 1)
+
+  console.log(
+    '工作表:',
+    sheetName,
+    '定义范围:',
+    sheet['!ref'],
+    '实际数据行:',
+    actualEndRow + 1,
+    '合并单元格:',
+    merges.length
+  )
+
+  const columns: DataColumn[] = []
+  const mergedRanges: MergedRange[][] = []
+  for (let col = range.s.c; col <= range.e.c; col++) {
+    columns.push({ name: getColumnName(sheet, findMerge, col, options), data: [] })
+    mergedRanges.push([])
+  }
+  const issues: ParseIssue[] = []
+
+  for (let row = dataStartRow; row <= actualEndRow; row++) {
+    try {
+      const values = columns.map((column, index) => {
+        const col = range.s.c + index
+        const merge = findMerge(row, col)
+        const cell = sheet[XLSX.utils.encode_cell(merge ? merge.s : { r: row, c: col })]
+        if (cell?.t === 'e') {
+          if (!merge || merge.s.r === row) {
+            issues.push({
+              row: row + 1,
+              column: column.name,
+              message: `单元格错误 ${cell.w ?? ''}`
+            })
+          }
+          return ''
+        }
+        const value = formatCellValue(cell)
+
+        // 记录合并范围（仅记录该列的合并信息，行号相对于数据起始行）
+        if (merge && col === merge.s.c && row === Math.max(merge.s.r, dataStartRow)) {
+          mergedRanges[index].push({
+            startRow: row - dataStartRow,
+            endRow: merge.e.r - dataStartRow,
+            value
+          })
+        }
+        return value
+      })
+      columns.forEach((column, index) => column.data.push(values[index]))
+    } catch (error) {
+      issues.push({
+        row: row + 1,
+        message: error instanceof Error ? error.message : '读取失败'
+      })
+      columns.forEach(column => column.data.push(''))
+    }
+
+    const done = row - dataStartRow + 1
+    if (onProgress && (done % PROGRESS_INTERVAL === 0 || done === total)) onProgress(done, total)
+  }
+
+  columns.forEach((column, index) => {
+    if (mergedRanges[index].length > 0) column.mergedRanges = mergedRanges[index]
+    column.type = inferColumnType(column.data)
+  })
+
+  console.log('Excel 解析完成，列数:', columns.length, '实际数据行数:', total)
+
+  return {
+    dataSource: {
+      fileName,
+      columns,
+      sheetName,
+      headerRow,
+      headerRowCount,
+      dataStartRow
+    },
+    issues
+  }
+}
@@ -0,0 +1,64 @@
+import type { ExcelImportOptions } from '@/types'
+import { getColumnNames, getSheetPreview, parseSheet, readWorkbook } from '@/utils/excelParser'
+import type { WorkBook } from 'xlsx'
+
+/**
+ * 解析数据文件的 Web Worker：打开的工作簿保留在 Worker 中，页面按导入设置请求预览与解析结果
+ */
+
+export type ExcelWorkerTask =
+  | { type: 'open'; fileName: string; buffer: ArrayBuffer }
+  | { type: 'preview'; sheetName: string; maxRows?: number }
+  | { type: 'columns'; options: ExcelImportOptions }
+  | { type: 'parse'; options: ExcelImportOptions }
+
+export type ExcelWorkerRequest = ExcelWorkerTask & { id: number }
+
+export type ExcelWorkerResponse = { id: number } & (
+  | { type: 'result'; result: unknown }
+  | { type: 'progress'; done: number; total: number }
+  | { type: 'error'; message: string }
+)
+
+let workbook: WorkBook | null = null
+let fileName = ''
+
+function getWorkbook(): WorkBook {
+  if (!workbook) throw new Error('文件尚未读取')
+  return workbook
+}
+
+function handleRequest(
+  request: ExcelWorkerRequest,
+  reply: (response: ExcelWorkerResponse) => void
+) {
+  switch (request.type) {
+    case 'open':
+      fileName = request.fileName
+      workbook = readWorkbook(request.buffer, fileName)
+      return workbook.SheetNames
+    case 'preview':
+      return getSheetPreview(getWorkbook(), request.sheetName, request.maxRows)
+    case 'columns':
+      return getColumnNames(getWorkbook(), request.options)
+    case 'parse':
+      return parseSheet(getWorkbook(), fileName, request.options, (done, total) =>
+        reply({ id: request.id, type: 'progress', done, total })
+      )
+  }
+}
+
+self.addEventListener('message', (event: MessageEvent<ExcelWorkerRequest>) => {
+  const request = event.data
+  const reply = (response: ExcelWorkerResponse) => self.postMessage(response)
+  try {
+    reply({ id: request.id, type: 'result', result: handleRequest(request, reply) })
+  } catch (error) {
+    console.error('数据文件解析错误:', error)
+    reply({
+      id: request.id,
+      type: 'error',
+      message: error instanceof Error ? error.message : '未知错误'
+    })
+  }
+})
@@ -9,6 +9,17 @@ import type {
   BarcodeWidget,
   QRCodeWidget
 } from '@/types'
+import { renderBarcodeSvg } from '@/utils/barcode'
+import { renderTemplate } from '@/utils/expression'
+import { addFontUsage, buildFontFaceCss, findFontFamily } from '@/utils/fonts'
+import { getTableCellFormat } from '@/utils/format'
+import type { FontUsage, RegisteredFontFamily } from '@/utils/fonts'
+import { renderMatrixCodeSvg } from '@/utils/matrixCode'
+import { createPageVariables, resolvePageVariables } from '@/utils/pageVariables'
+import type { PageVariables } from '@/utils/pageVariables'
+import { getFooterCellText, getFooterRowCount, getTableDataRowCount } from '@/utils/tableFooter'
+import { getWidgetSource } from '@/utils/templateDataSource'
+import type { DataSourceReader } from '@/utils/templateDataSource'
 
 const MM_TO_PX = 3.78
 
@@ -17,15 +28,36 @@ const MM_TO_PX = 3.78
  * @param template 模板数据
  * @param dataSourceStore 数据源 store（可选，用于填充数据）
  */
-export function exportAsHtml(template: Template, dataSourceStore?: any) {
+export async function exportAsHtml(template: Template, dataSourceStore?: any) {
   const { paperSize, widgets, name } = template
   const width = paperSize.width * MM_TO_PX
   const height = paperSize.height * MM_TO_PX
 
-  // 生成所有组件的 HTML
-  const widgetsHtml = widgets
-    .map(widget => generateWidgetHtml(widget, dataSourceStore))
-    .join('\n    ')
+  // 导出的文件只有一页，页面变量按第 1 页、第 1 份替换
+  const variables = createPageVariables([0], 1, name, new Date())[0]
+
+  // 生成所有组件的 HTML，每个组件读取其绑定的数据源
+  const widgetHtmlList = widgets.map(widget =>
+    generateWidgetHtml(
+      widget,
+      dataSourceStore?.createSourceReader(template, getWidgetSource(widget)),
+      variables
+    )
+  )
+
+  // 页眉页脚与预览页一致，位于纸张顶部与底部居中
+  const pageTextHtml = (className: string, text?: string) =>
+    text
+      ? [`<div class="${className}">${escapeHtml(resolvePageVariables(text, variables))}</div>`]
+      : []
+  const widgetsHtml = [
+    ...pageTextHtml('page-header', paperSize?.header),
+    ...pageTextHtml('page-footer', paperSize?.footer),
+    ...widgetHtmlList
+  ].join('\n    ')
+
+  // 内嵌用到的字体子集，文件在未安装对应字体的电脑上也能按原样显示
+  const fontFaceCss = await buildFontFaceCss(collectFontUsage(widgets, widgetHtmlList))
 
   // 生成完整的 HTML 文档
   const html = `<!DOCTYPE html>
@@ -35,6 +67,8 @@ export function exportAsHtml(template: Template, dataSourceStore?: any) {
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
   <title>${escapeHtml(name)}</title>
   <style>
+    ${fontFaceCss}
+
     * {
       margin: 0;
       padding: 0;
@@ -124,6 +158,30 @@ export function exportAsHtml(template: Template, dataSourceStore?: any) {
       cursor: text;
     }
 
+    /* 页眉页脚 */
+    .page-header,
+    .page-footer {
+      position: absolute;
+      left: 0;
+      right: 0;
+      height: 30px;
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      font-size: 12px;
+      color: #666;
+      white-space: nowrap;
+      pointer-events: none;
+    }
+
+    .page-header {
+      top: 0;
+    }
+
+    .page-footer {
+      bottom: 0;
+    }
+
     .editable-text:focus {
       outline: 2px dashed #52c41a;
       outline-offset: 2px;
@@ -316,18 +374,51 @@ export function exportAsHtml(template: Template, dataSourceStore?: any) {
 /**
  * 生成单个组件的 HTML
  */
-function generateWidgetHtml(widget: Widget, dataSourceStore?: any): string {
+/**
+ * 统计文本与表格组件中使用已注册字体的文字
+ * 表格按整张表格统计，多收集的字形只会略微增大子集体积
+ */
+function collectFontUsage(widgets: Widget[], widgetHtmlList: string[]): FontUsage {
+  const usage: FontUsage = new Map()
+  widgets.forEach((widget, index) => {
+    const families =
+      widget.type === 'text'
+        ? [widget.fontFamily]
+        : widget.type === 'table'
+          ? widget.cells.flat().map(cell => cell.fontFamily)
+          : []
+    const registered = new Set(
+      families
+        .map(family => findFontFamily(family))
+        .filter((family): family is RegisteredFontFamily => family !== null)
+    )
+    if (registered.size === 0) return
+    const text = htmlToText(widgetHtmlList[index])
+    registered.forEach(family => addFontUsage(usage, family, text))
+  })
+  return usage
+}
+
+function htmlToText(html: string): string {
+  return new DOMParser().parseFromString(html, 'text/html').body.textContent ?? ''
+}
+
+function generateWidgetHtml(
+  widget: Widget,
+  reader?: DataSourceReader,
+  variables?: PageVariables
+): string {
   const baseStyle = `left: ${widget.x}px; top: ${widget.y}px; width: ${widget.width}px; height: ${widget.height}px; z-index: ${widget.zIndex || 1};`
 
   switch (widget.type) {
     case 'text':
-      return generateTextWidgetHtml(widget as TextWidget, baseStyle, dataSourceStore)
+      return generateTextWidgetHtml(widget as TextWidget, baseStyle, reader, variables)
 
     case 'image':
       return generateImageWidgetHtml(widget as ImageWidget, baseStyle)
 
     case 'table':
-      return generateTableWidgetHtml(widget as TableWidget, baseStyle, dataSourceStore)
+      return generateTableWidgetHtml(widget as TableWidget, baseStyle, reader)
 
     case 'line':
       return generateLineWidgetHtml(widget as LineWidget, baseStyle)
@@ -336,10 +427,10 @@ function generateWidgetHtml(widget: Widget, dataSourceStore?: any): string {
       return generateRectWidgetHtml(widget as RectWidget, baseStyle)
 
     case 'barcode':
-      return generateBarcodeWidgetHtml(widget as BarcodeWidget, baseStyle, dataSourceStore)
+      return generateBarcodeWidgetHtml(widget as BarcodeWidget, baseStyle, reader)
 
     case 'qrcode':
-      return generateQRCodeWidgetHtml(widget as QRCodeWidget, baseStyle, dataSourceStore)
+      return generateQRCodeWidgetHtml(widget as QRCodeWidget, baseStyle, reader)
 
     default:
       return ''
@@ -350,17 +441,19 @@ function generateWidgetHtml(widget: Widget, dataSourceStore?: any): string {
 function generateTextWidgetHtml(
   widget: TextWidget,
   baseStyle: string,
-  dataSourceStore?: any
+  reader?: DataSourceReader,
+  variables?: PageVariables
 ): string {
-  let content = widget.content
+  const rowIndex = typeof widget.dataRowIndex === 'number' ? widget.dataRowIndex : 0
+  const text = resolvePageVariables(widget.content, variables)
+  let content = reader ? renderTemplate(text, reader.getColumnData, rowIndex) : text
 
   // 如果有数据源绑定，尝试获取数据
-  if (widget.dataSource && dataSourceStore) {
+  if (widget.dataSource && reader) {
     try {
-      const rowIndex = typeof widget.dataRowIndex === 'number' ? widget.dataRowIndex : 0
-      const value = dataSourceStore.getColumnValue(widget.dataSource, rowIndex)
-      if (value !== '' && value !== null && value !== undefined) {
-        content = String(value)
+      const value = reader.getFormattedColumnValue(widget.dataSource, rowIndex, widget.format)
+      if (value !== '') {
+        content = value
       }
     } catch (e) {
       // 忽略错误，使用默认内容
@@ -381,12 +474,18 @@ function generateImageWidgetHtml(widget: ImageWidget, baseStyle: string): string
 function generateTableWidgetHtml(
   widget: TableWidget,
   baseStyle: string,
-  dataSourceStore?: any
+  reader?: DataSourceReader
 ): string {
   const borderStyle = `border: ${widget.borderWidth}px ${widget.borderStyle || 'solid'} ${widget.borderColor};`
 
   let tableHtml = '<table class="table-widget">'
 
+  // 表尾不分页，统计全部数据行
+  const footerStart = widget.rows - getFooterRowCount(widget)
+  const dataRows = reader
+    ? Array.from({ length: getTableDataRowCount(widget, reader.getColumnData) }, (_, i) => i)
+    : []
+
   // 简单模式：直接渲染 cells
   for (let i = 0; i < widget.rows; i++) {
     tableHtml += '<tr>'
@@ -397,14 +496,26 @@ function generateTableWidgetHtml(
         continue
       }
 
-      let content = cell.content || ''
-
-      // 数据绑定
-      if (cell.dataSource && dataSourceStore) {
+      let content = reader
+        ? renderTemplate(cell.content || '', reader.getColumnData, 0)
+        : cell.content || ''
+
+      if (i >= footerStart) {
+        content = reader
+          ? getFooterCellText(widget, j, cell, dataRows, reader)
+          : cell.aggregate
+            ? ''
+            : content
+      } else if (cell.dataSource && reader) {
+        // 数据绑定
         try {
-          const value = dataSourceStore.getColumnValue(cell.dataSource, 0)
-          if (value !== '' && value !== null && value !== undefined) {
-            content = String(value)
+          const value = reader.getFormattedColumnValue(
+            cell.dataSource,
+            0,
+            getTableCellFormat(widget, j, cell)
+          )
+          if (value !== '') {
+            content = value
           }
         } catch (e) {
           // 忽略
@@ -455,14 +566,14 @@ function generateRectWidgetHtml(widget: RectWidget, baseStyle: string): string {
 function generateBarcodeWidgetHtml(
   widget: BarcodeWidget,
   baseStyle: string,
-  dataSourceStore?: any
+  reader?: DataSourceReader
 ): string {
   let value = widget.value
 
-  if (widget.dataSource && dataSourceStore) {
+  if (widget.dataSource && reader) {
     try {
       const rowIndex = typeof widget.dataRowIndex === 'number' ? widget.dataRowIndex : 0
-      const dataValue = dataSourceStore.getColumnValue(widget.dataSource, rowIndex)
+      const dataValue = reader.getColumnValue(widget.dataSource, rowIndex)
       if (dataValue !== '' && dataValue !== null && dataValue !== undefined) {
         value = String(dataValue)
       }
@@ -471,23 +582,33 @@ function generateBarcodeWidgetHtml(
     }
   }
 
-  return `<div class="widget barcode-widget" style="${baseStyle} display: flex; align-items: center; justify-content: center; border: 1px dashed #ccc; font-size: 12px; color: #999;">
-    [条形码: ${escapeHtml(value)} - ${widget.format}]
+  const { svg, error } = renderBarcodeSvg(value, widget.format, {
+    width: widget.width * MM_TO_PX,
+    height: widget.height * MM_TO_PX,
+    showText: widget.showText
+  })
+
+  if (error !== null) {
+    return `<div class="widget barcode-widget" style="${baseStyle} display: flex; flex-direction: column; align-items: center; justify-content: center; border: 1px dashed #ff4d4f; background: #fff1f0; font-size: 10px; color: #cf1322; text-align: center; overflow: hidden;">
+    <strong>条码无效</strong><span>${escapeHtml(error)}</span>
   </div>`
+  }
+
+  return `<div class="widget barcode-widget" style="${baseStyle}">${svg.replace('<svg ', '<svg style="display: block; width: 100%; height: 100%;" ')}</div>`
 }
 
 // 生成二维码组件 HTML
 function generateQRCodeWidgetHtml(
   widget: QRCodeWidget,
   baseStyle: string,
-  dataSourceStore?: any
+  reader?: DataSourceReader
 ): string {
   let value = widget.value
 
-  if (widget.dataSource && dataSourceStore) {
+  if (widget.dataSource && reader) {
     try {
       const rowIndex = typeof widget.dataRowIndex === 'number' ? widget.dataRowIndex : 0
-      const dataValue = dataSourceStore.getColumnValue(widget.dataSource, rowIndex)
+      const dataValue = reader.getColumnValue(widget.dataSource, rowIndex)
       if (dataValue !== '' && dataValue !== null && dataValue !== undefined) {
         value = String(dataValue)
       }
@@ -496,9 +617,22 @@ function generateQRCodeWidgetHtml(
     }
   }
 
-  return `<div class="widget qrcode-widget" style="${baseStyle} display: flex; align-items: center; justify-content: center; border: 1px dashed #ccc; font-size: 12px; color: #999;">
-    [二维码: ${escapeHtml(value)}]
+  const { svg, error } = renderMatrixCodeSvg(value, widget.format, {
+    width: widget.width * MM_TO_PX,
+    height: widget.height * MM_TO_PX,
+    errorCorrectionLevel: widget.errorCorrectionLevel,
+    margin: widget.margin,
+    foreground: widget.foreground,
+    background: widget.background
+  })
+
+  if (error !== null) {
+    return `<div class="widget qrcode-widget" style="${baseStyle} display: flex; flex-direction: column; align-items: center; justify-content: center; border: 1px dashed #ff4d4f; background: #fff1f0; font-size: 10px; color: #cf1322; text-align: center; overflow: hidden;">
+    <strong>${widget.format && widget.format !== 'QR' ? widget.format : '二维码'} 无效</strong><span>${escapeHtml(error)}</span>
   </div>`
+  }
+
+  return `<div class="widget qrcode-widget" style="${baseStyle}">${svg.replace('<svg ', '<svg style="display: block; width: 100%; height: 100%;" ')}</div>`
 }
 
 // HTML 转义
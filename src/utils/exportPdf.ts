@@ -1,6 +1,63 @@
 import jsPDF from 'jspdf'
 import html2canvas from 'html2canvas'
 import type { Template } from '@/types'
+import type { PageVariables } from '@/utils/pageVariables'
+import { collectPdfFontUsage, registerPdfFonts, renderPdfPage } from '@/utils/pdfRenderer'
+import type { PdfPageItem, PdfReaderResolver } from '@/utils/pdfRenderer'
+
+/**
+ * 矢量导出：按分页结果直接绘制组件，文字可选中、条码保持清晰，文件体积远小于截图方式
+ * @param template 模板数据
+ * @param pages 分页后的组件（与预览页分页结果一致）
+ * @param getReader 按组件绑定的数据源返回读取接口，用于填充绑定字段
+ * @param options 导出选项
+ */
+export async function exportVectorPdf(
+  template: Template,
+  pages: PdfPageItem[][],
+  getReader?: PdfReaderResolver,
+  options?: {
+    filename?: string
+    pageVariables?: PageVariables[] // 各页的页码等页面变量
+  }
+) {
+  const { paperSize, name } = template
+  const filename = options?.filename || name
+  if (!paperSize) {
+    throw new Error('请先选择画布大小')
+  }
+
+  try {
+    const orientation = paperSize.width > paperSize.height ? 'landscape' : 'portrait'
+    const pdf = new jsPDF({
+      orientation,
+      unit: 'mm',
+      format: [paperSize.width, paperSize.height],
+      compress: true
+    })
+
+    // 没有组件时仍输出一张带页眉页脚的空白页
+    const pageList = pages.length > 0 ? pages : [[]]
+    // 只嵌入实际用到的字形
+    await registerPdfFonts(
+      pdf,
+      collectPdfFontUsage(paperSize, pageList, getReader, options?.pageVariables)
+    )
+    for (let i = 0; i < pageList.length; i++) {
+      if (i > 0) {
+        pdf.addPage([paperSize.width, paperSize.height], orientation)
+      }
+      await renderPdfPage(pdf, paperSize, pageList[i], getReader, options?.pageVariables?.[i])
+    }
+
+    pdf.save(`${filename}.pdf`)
+
+    return true
+  } catch (error) {
+    console.error('矢量 PDF 导出失败:', error)
+    throw error
+  }
+}
 
 /**
  * 将 HTML 元素导出为 PDF
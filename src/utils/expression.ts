@@ -0,0 +1,806 @@
+import type { TableAggregate, ValueFormat } from '@/types'
+import {
+  formatDate,
+  formatNumber,
+  formatValue,
+  parseDate,
+  parseNumber,
+  toRmbUppercase
+} from '@/utils/format'
+
+/**
+ * 模板表达式：文本与单元格内容中的 {{ }} 占位符，按当前数据行求值
+ * 自行解析与求值，不使用 eval / new Function，只能读取数据列与调用内置函数
+ *
+ * 语法：
+ * - 列名直接引用，如 {{客户名称}}；含空格、运算符等字符的列名用方括号，如 {{[收货人-姓名]}}
+ * - 字符串 '...' 或 "..."，数字，true / false
+ * - 运算：+ - * / %，& 连接字符串，比较 = == != <> > >= < <=，逻辑 && || !，条件 a ? b : c
+ * - 函数：见 EXPRESSION_FUNCTIONS，函数名不区分大小写
+ */
+
+export type ExpressionValue = string | number | boolean | null
+
+export type ExpressionNode =
+  | { type: 'literal'; value: ExpressionValue }
+  | { type: 'column'; name: string }
+  | { type: 'unary'; operator: string; argument: ExpressionNode }
+  | { type: 'binary'; operator: string; left: ExpressionNode; right: ExpressionNode }
+  | {
+      type: 'conditional'
+      test: ExpressionNode
+      consequent: ExpressionNode
+      alternate: ExpressionNode
+    }
+  | { type: 'call'; name: string; args: ExpressionNode[] }
+
+export type TemplateSegment =
+  | { type: 'text'; text: string }
+  | { type: 'expression'; source: string; node?: ExpressionNode; error?: string }
+
+/**
+ * 读取数据列，列不存在时返回空数组
+ */
+export type ColumnReader = (columnName: string) => (string | number)[]
+
+// ==================== 内置函数 ====================
+
+type LazyArgument = () => ExpressionValue
+
+interface ExpressionFunction {
+  description: string
+  minArgs: number
+  maxArgs: number
+  // 参数按需求值，IF 等函数不会计算未选中的分支
+  call: (args: LazyArgument[]) => ExpressionValue
+}
+
+function toText(value: ExpressionValue): string {
+  if (value === null) return ''
+  if (typeof value === 'boolean') return value ? '是' : '否'
+  if (typeof value === 'number') {
+    // 消除浮点误差，如 0.1 + 0.2 → 0.3
+    return String(Number(value.toPrecision(12)))
+  }
+  return value
+}
+
+function isEmpty(value: ExpressionValue): boolean {
+  return value === null || (typeof value === 'string' && value.trim() === '')
+}
+
+function toNumberOrNull(value: ExpressionValue): number | null {
+  if (value === null) return 0
+  if (typeof value === 'boolean') return value ? 1 : 0
+  if (typeof value === 'string' && value.trim() === '') return 0
+  return parseNumber(value)
+}
+
+function toNumber(value: ExpressionValue): number {
+  const number = toNumberOrNull(value)
+  if (number === null) throw new Error(`“${toText(value)}”不是有效的数字`)
+  return number
+}
+
+function toBoolean(value: ExpressionValue): boolean {
+  if (typeof value === 'string') {
+    const text = value.trim().toLowerCase()
+    return text !== '' && text !== 'false' && text !== '否' && text !== '0'
+  }
+  return !!value
+}
+
+function toDate(value: ExpressionValue): Date {
+  const date = value === null || typeof value === 'boolean' ? null : parseDate(value, 'date')
+  if (!date) throw new Error(`“${toText(value)}”不是有效的日期`)
+  return date
+}
+
+function compare(left: ExpressionValue, right: ExpressionValue): number {
+  const a = toNumberOrNull(left)
+  const b = toNumberOrNull(right)
+  // 两侧都是数字时按数值比较，否则按文本比较
+  if (a !== null && b !== null && !isEmpty(left) && !isEmpty(right)) return a - b
+  return toText(left).localeCompare(toText(right))
+}
+
+/**
+ * 汇总一组值：空值不参与统计，SUM、AVG、MIN、MAX 忽略无法转为数字的值
+ * @returns 没有可统计的数字时 AVG、MIN、MAX 返回 null
+ */
+export function aggregateValues(
+  aggregate: TableAggregate,
+  values: ExpressionValue[]
+): ExpressionValue {
+  const present = values.filter(value => !isEmpty(value))
+  if (aggregate === 'count') return present.length
+  const numbers = present
+    .map(value => toNumberOrNull(value))
+    .filter((value): value is number => value !== null)
+  switch (aggregate) {
+    case 'sum':
+      return numbers.reduce((sum, value) => sum + value, 0)
+    case 'avg':
+      return numbers.length ? numbers.reduce((sum, value) => sum + value, 0) / numbers.length : null
+    // 数据行很多时展开为参数会超出调用栈，逐个比较
+    case 'min':
+      return numbers.length ? numbers.reduce((min, value) => (value < min ? value : min)) : null
+    case 'max':
+      return numbers.length ? numbers.reduce((max, value) => (value > max ? value : max)) : null
+  }
+}
+
+const text = (arg: LazyArgument) => toText(arg())
+const number = (arg: LazyArgument) => toNumber(arg())
+
+export const EXPRESSION_FUNCTIONS: Record<string, ExpressionFunction> = {
+  IF: {
+    description: 'IF(条件, 成立时的值, 不成立时的值)',
+    minArgs: 2,
+    maxArgs: 3,
+    call: ([test, consequent, alternate]) =>
+      toBoolean(test()) ? consequent() : alternate ? alternate() : ''
+  },
+  DEFAULT: {
+    description: 'DEFAULT(值, 默认值)：值为空时使用默认值，可依次提供多个备选值',
+    minArgs: 2,
+    maxArgs: Infinity,
+    call: args => {
+      for (const arg of args) {
+        const value = arg()
+        if (!isEmpty(value)) return value
+      }
+      return ''
+    }
+  },
+  CONCAT: {
+    description: 'CONCAT(文本1, 文本2, ...)',
+    minArgs: 1,
+    maxArgs: Infinity,
+    call: args => args.map(text).join('')
+  },
+  UPPER: {
+    description: 'UPPER(文本)：转为大写',
+    minArgs: 1,
+    maxArgs: 1,
+    call: ([value]) => text(value).toUpperCase()
+  },
+  LOWER: {
+    description: 'LOWER(文本)：转为小写',
+    minArgs: 1,
+    maxArgs: 1,
+    call: ([value]) => text(value).toLowerCase()
+  },
+  TRIM: {
+    description: 'TRIM(文本)：去掉首尾空白',
+    minArgs: 1,
+    maxArgs: 1,
+    call: ([value]) => text(value).trim()
+  },
+  LEN: {
+    description: 'LEN(文本)：字符数',
+    minArgs: 1,
+    maxArgs: 1,
+    call: ([value]) => Array.from(text(value)).length
+  },
+  LEFT: {
+    description: 'LEFT(文本, 字符数)：从左侧截取，默认 1 个字符',
+    minArgs: 1,
+    maxArgs: 2,
+    call: ([value, count]) =>
+      Array.from(text(value))
+        .slice(0, count ? Math.max(number(count), 0) : 1)
+        .join('')
+  },
+  RIGHT: {
+    description: 'RIGHT(文本, 字符数)：从右侧截取，默认 1 个字符',
+    minArgs: 1,
+    maxArgs: 2,
+    call: ([value, count]) => {
+      const chars = Array.from(text(value))
+      const length = count ? Math.max(number(count), 0) : 1
+      return chars.slice(Math.max(chars.length - length, 0)).join('')
+    }
+  },
+  MID: {
+    description: 'MID(文本, 起始位置, 字符数)：起始位置从 1 开始',
+    minArgs: 3,
+    maxArgs: 3,
+    call: ([value, start, count]) => {
+      const from = Math.max(number(start) - 1, 0)
+      return Array.from(text(value))
+        .slice(from, from + Math.max(number(count), 0))
+        .join('')
+    }
+  },
+  REPLACE: {
+    description: 'REPLACE(文本, 查找内容, 替换为)：替换全部匹配',
+    minArgs: 3,
+    maxArgs: 3,
+    call: ([value, search, replacement]) => {
+      const target = text(search)
+      return target ? text(value).split(target).join(text(replacement)) : text(value)
+    }
+  },
+  ROUND: {
+    description: 'ROUND(数字, 小数位数)：四舍五入，默认取整',
+    minArgs: 1,
+    maxArgs: 2,
+    call: ([value, decimals]) => {
+      const factor = 10 ** (decimals ? number(decimals) : 0)
+      // 先按 12 位有效数字修正，避免 1.005 * 100 = 100.49999 导致的舍入错误
+      return Math.round(Number((number(value) * factor).toPrecision(12))) / factor
+    }
+  },
+  FLOOR: {
+    description: 'FLOOR(数字)：向下取整',
+    minArgs: 1,
+    maxArgs: 1,
+    call: ([value]) => Math.floor(number(value))
+  },
+  CEIL: {
+    description: 'CEIL(数字)：向上取整',
+    minArgs: 1,
+    maxArgs: 1,
+    call: ([value]) => Math.ceil(number(value))
+  },
+  ABS: {
+    description: 'ABS(数字)：绝对值',
+    minArgs: 1,
+    maxArgs: 1,
+    call: ([value]) => Math.abs(number(value))
+  },
+  SUM: {
+    description: 'SUM(数字1, 数字2, ...)：在表尾中 SUM(列名) 统计所有数据行，下同',
+    minArgs: 1,
+    maxArgs: Infinity,
+    call: args =>
+      aggregateValues(
+        'sum',
+        args.map(arg => arg())
+      )
+  },
+  AVG: {
+    description: 'AVG(数字1, 数字2, ...)：平均值',
+    minArgs: 1,
+    maxArgs: Infinity,
+    call: args =>
+      aggregateValues(
+        'avg',
+        args.map(arg => arg())
+      )
+  },
+  COUNT: {
+    description: 'COUNT(值1, 值2, ...)：非空值的个数',
+    minArgs: 1,
+    maxArgs: Infinity,
+    call: args =>
+      aggregateValues(
+        'count',
+        args.map(arg => arg())
+      )
+  },
+  MIN: {
+    description: 'MIN(数字1, 数字2, ...)',
+    minArgs: 1,
+    maxArgs: Infinity,
+    call: args =>
+      aggregateValues(
+        'min',
+        args.map(arg => arg())
+      )
+  },
+  MAX: {
+    description: 'MAX(数字1, 数字2, ...)',
+    minArgs: 1,
+    maxArgs: Infinity,
+    call: args =>
+      aggregateValues(
+        'max',
+        args.map(arg => arg())
+      )
+  },
+  FIXED: {
+    description: 'FIXED(数字, 小数位数, 不加千分位)：默认保留 2 位小数并加千分位',
+    minArgs: 1,
+    maxArgs: 3,
+    call: ([value, decimals, noThousands]) =>
+      formatNumber(
+        number(value),
+        decimals ? number(decimals) : 2,
+        !(noThousands && toBoolean(noThousands()))
+      )
+  },
+  RMB: {
+    description: 'RMB(金额)：人民币大写',
+    minArgs: 1,
+    maxArgs: 1,
+    call: ([value]) => toRmbUppercase(number(value))
+  },
+  FORMAT_DATE: {
+    description: "FORMAT_DATE(日期, 格式)：如 FORMAT_DATE(下单日期, 'yyyy年M月d日')",
+    minArgs: 1,
+    maxArgs: 2,
+    call: ([value, pattern]) => formatDate(toDate(value()), pattern ? text(pattern) : 'yyyy-MM-dd')
+  },
+  TODAY: {
+    description: "TODAY(格式)：当天日期，默认 'yyyy-MM-dd'",
+    minArgs: 0,
+    maxArgs: 1,
+    call: ([pattern]) => formatDate(new Date(), pattern ? text(pattern) : 'yyyy-MM-dd')
+  },
+  NOW: {
+    description: "NOW(格式)：当前时间，默认 'yyyy-MM-dd HH:mm'",
+    minArgs: 0,
+    maxArgs: 1,
+    call: ([pattern]) => formatDate(new Date(), pattern ? text(pattern) : 'yyyy-MM-dd HH:mm')
+  }
+}
+
+// ==================== 词法分析 ====================
+
+type Token =
+  | { type: 'number'; value: number }
+  | { type: 'string'; value: string }
+  | { type: 'identifier'; value: string }
+  | { type: 'column'; value: string } // 方括号包裹的列名
+  | { type: 'operator'; value: string }
+
+const OPERATORS = ['==', '!=', '<>', '>=', '<=', '&&', '||', '+', '-', '*', '/', '%', '&']
+const PUNCTUATION = '()=<>!?:,'
+// 全角标点按半角处理，方便直接用中文输入法书写
+const FULL_WIDTH: Record<string, string> = { '（': '(', '）': ')', '，': ',', '：': ':', '？': '?' }
+const IDENTIFIER_START = /[\p{L}_]/u
+const IDENTIFIER_PART = /[\p{L}\p{N}_.]/u
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = []
+  let i = 0
+  while (i < source.length) {
+    const char = FULL_WIDTH[source[i]] ?? source[i]
+    if (/\s/.test(char)) {
+      i++
+      continue
+    }
+    if (/[0-9]/.test(char) || (char === '.' && /[0-9]/.test(source[i + 1] ?? ''))) {
+      const match = source.slice(i).match(/^(\d+\.?\d*|\.\d+)(e[+-]?\d+)?/i)!
+      tokens.push({ type: 'number', value: Number(match[0]) })
+      i += match[0].length
+      continue
+    }
+    if (char === '"' || char === "'" || char === '“' || char === '‘') {
+      const close = char === '“' ? '”' : char === '‘' ? '’' : char
+      let value = ''
+      i++
+      while (i < source.length && source[i] !== close) {
+        // 反斜杠转义引号与反斜杠本身
+        if (source[i] === '\\' && i + 1 < source.length) i++
+        value += source[i]
+        i++
+      }
+      if (i >= source.length) throw new Error('字符串缺少结束引号')
+      tokens.push({ type: 'string', value })
+      i++
+      continue
+    }
+    if (char === '[') {
+      const end = source.indexOf(']', i + 1)
+      if (end < 0) throw new Error('列名缺少结束的“]”')
+      tokens.push({ type: 'column', value: source.slice(i + 1, end).trim() })
+      i = end + 1
+      continue
+    }
+    if (IDENTIFIER_START.test(char)) {
+      let end = i + 1
+      while (end < source.length && IDENTIFIER_PART.test(source[end])) end++
+      tokens.push({ type: 'identifier', value: source.slice(i, end) })
+      i = end
+      continue
+    }
+    const operator = OPERATORS.find(op => source.startsWith(op, i))
+    if (operator) {
+      tokens.push({ type: 'operator', value: operator })
+      i += operator.length
+      continue
+    }
+    if (PUNCTUATION.includes(char)) {
+      tokens.push({ type: 'operator', value: char })
+      i++
+      continue
+    }
+    throw new Error(`无法识别的字符“${source[i]}”`)
+  }
+  return tokens
+}
+
+// ==================== 语法分析 ====================
+
+// 二元运算符按优先级从低到高排列
+const BINARY_PRECEDENCE: string[][] = [
+  ['||'],
+  ['&&'],
+  ['=', '==', '!=', '<>'],
+  ['<', '>', '<=', '>='],
+  ['&'],
+  ['+', '-'],
+  ['*', '/', '%']
+]
+
+function parseExpression(source: string): ExpressionNode {
+  const tokens = tokenize(source)
+  let position = 0
+
+  const peek = () => tokens[position]
+  const isOperator = (value: string) => {
+    const token = peek()
+    return token?.type === 'operator' && token.value === value
+  }
+  const expect = (value: string) => {
+    if (!isOperator(value)) throw new Error(`缺少“${value}”`)
+    position++
+  }
+
+  function parseConditional(): ExpressionNode {
+    const test = parseBinary(0)
+    if (!isOperator('?')) return test
+    position++
+    const consequent = parseConditional()
+    expect(':')
+    const alternate = parseConditional()
+    return { type: 'conditional', test, consequent, alternate }
+  }
+
+  function parseBinary(level: number): ExpressionNode {
+    if (level >= BINARY_PRECEDENCE.length) return parseUnary()
+    let left = parseBinary(level + 1)
+    for (;;) {
+      const token = peek()
+      if (token?.type !== 'operator' || !BINARY_PRECEDENCE[level].includes(token.value)) break
+      position++
+      left = { type: 'binary', operator: token.value, left, right: parseBinary(level + 1) }
+    }
+    return left
+  }
+
+  function parseUnary(): ExpressionNode {
+    if (isOperator('-') || isOperator('+') || isOperator('!')) {
+      const operator = (tokens[position++] as { value: string }).value
+      return { type: 'unary', operator, argument: parseUnary() }
+    }
+    return parsePrimary()
+  }
+
+  function parsePrimary(): ExpressionNode {
+    const token = tokens[position++]
+    if (!token) throw new Error('表达式不完整')
+    switch (token.type) {
+      case 'number':
+      case 'string':
+        return { type: 'literal', value: token.value }
+      case 'column':
+        if (!token.value) throw new Error('列名不能为空')
+        return { type: 'column', name: token.value }
+      case 'identifier': {
+        if (isOperator('(')) return parseCall(token.value)
+        const keyword = token.value.toLowerCase()
+        if (keyword === 'true' || keyword === 'false') {
+          return { type: 'literal', value: keyword === 'true' }
+        }
+        return { type: 'column', name: token.value }
+      }
+      case 'operator':
+        if (token.value === '(') {
+          const node = parseConditional()
+          expect(')')
+          return node
+        }
+        throw new Error(`此处不能使用“${token.value}”`)
+    }
+  }
+
+  function parseCall(rawName: string): ExpressionNode {
+    const name = rawName.toUpperCase()
+    const fn = EXPRESSION_FUNCTIONS[name]
+    if (!fn) throw new Error(`未知函数：${rawName}`)
+    position++ // (
+    const args: ExpressionNode[] = []
+    if (!isOperator(')')) {
+      args.push(parseConditional())
+      while (isOperator(',')) {
+        position++
+        args.push(parseConditional())
+      }
+    }
+    expect(')')
+    if (args.length < fn.minArgs || args.length > fn.maxArgs) {
+      throw new Error(`函数参数个数不正确：${fn.description}`)
+    }
+    return { type: 'call', name, args }
+  }
+
+  if (tokens.length === 0) throw new Error('表达式为空')
+  const node = parseConditional()
+  if (position < tokens.length) {
+    const token = tokens[position]
+    throw new Error(`多余的内容“${token.type === 'string' ? `'${token.value}'` : token.value}”`)
+  }
+  return node
+}
+
+// ==================== 求值 ====================
+
+interface EvaluationScope {
+  getValue: (name: string) => ExpressionValue
+  // 表尾统计：只有一个参数的 SUM、AVG、COUNT、MIN、MAX 对这些数据行逐行求值后汇总
+  aggregate?: { readColumn: ColumnReader; rows: number[] }
+}
+
+const AGGREGATE_FUNCTIONS: Record<string, TableAggregate> = {
+  SUM: 'sum',
+  AVG: 'avg',
+  COUNT: 'count',
+  MIN: 'min',
+  MAX: 'max'
+}
+
+function createRowScope(readColumn: ColumnReader, rowIndex: number): EvaluationScope {
+  return { getValue: name => readColumn(name)[rowIndex] ?? null }
+}
+
+function evaluate(node: ExpressionNode, scope: EvaluationScope): ExpressionValue {
+  const run = (child: ExpressionNode) => evaluate(child, scope)
+  switch (node.type) {
+    case 'literal':
+      return node.value
+    case 'column':
+      return scope.getValue(node.name)
+    case 'unary': {
+      const value = run(node.argument)
+      if (node.operator === '!') return !toBoolean(value)
+      return node.operator === '-' ? -toNumber(value) : toNumber(value)
+    }
+    case 'conditional':
+      return toBoolean(run(node.test)) ? run(node.consequent) : run(node.alternate)
+    case 'call': {
+      const aggregate = AGGREGATE_FUNCTIONS[node.name]
+      if (scope.aggregate && aggregate && node.args.length === 1) {
+        const { readColumn, rows } = scope.aggregate
+        const values = rows.map(row => evaluate(node.args[0], createRowScope(readColumn, row)))
+        return aggregateValues(aggregate, values)
+      }
+      return EXPRESSION_FUNCTIONS[node.name].call(node.args.map(arg => () => run(arg)))
+    }
+    case 'binary':
+      return evaluateBinary(node.operator, node.left, node.right, run)
+  }
+}
+
+function evaluateBinary(
+  operator: string,
+  leftNode: ExpressionNode,
+  rightNode: ExpressionNode,
+  run: (node: ExpressionNode) => ExpressionValue
+): ExpressionValue {
+  // 逻辑运算短路求值
+  if (operator === '&&') return toBoolean(run(leftNode)) && toBoolean(run(rightNode))
+  if (operator === '||') return toBoolean(run(leftNode)) || toBoolean(run(rightNode))
+
+  const left = run(leftNode)
+  const right = run(rightNode)
+  switch (operator) {
+    case '&':
+      return toText(left) + toText(right)
+    case '+': {
+      // 两侧都能转为数字时相加，否则连接文本
+      const a = toNumberOrNull(left)
+      const b = toNumberOrNull(right)
+      return a !== null && b !== null ? a + b : toText(left) + toText(right)
+    }
+    case '-':
+      return toNumber(left) - toNumber(right)
+    case '*':
+      return toNumber(left) * toNumber(right)
+    case '/':
+    case '%': {
+      const divisor = toNumber(right)
+      if (divisor === 0) throw new Error('除数不能为 0')
+      return operator === '/' ? toNumber(left) / divisor : toNumber(left) % divisor
+    }
+    case '=':
+    case '==':
+      return compare(left, right) === 0
+    case '!=':
+    case '<>':
+      return compare(left, right) !== 0
+    case '<':
+      return compare(left, right) < 0
+    case '>':
+      return compare(left, right) > 0
+    case '<=':
+      return compare(left, right) <= 0
+    case '>=':
+      return compare(left, right) >= 0
+    default:
+      throw new Error(`不支持的运算符“${operator}”`)
+  }
+}
+
+// ==================== 模板 ====================
+
+const TEMPLATE_PATTERN = /\{\{([\s\S]*?)\}\}/g
+const TEMPLATE_CACHE_LIMIT = 500
+const templateCache = new Map<string, TemplateSegment[]>()
+
+export function hasTemplateExpression(text?: string | null): boolean {
+  return !!text && text.includes('{{') && /\{\{[\s\S]*?\}\}/.test(text)
+}
+
+/**
+ * 将模板拆分为文本与表达式片段，语法错误记录在片段的 error 中
+ */
+export function parseTemplate(template: string): TemplateSegment[] {
+  const cached = templateCache.get(template)
+  if (cached) return cached
+
+  const segments: TemplateSegment[] = []
+  let lastIndex = 0
+  for (const match of template.matchAll(TEMPLATE_PATTERN)) {
+    if (match.index! > lastIndex) {
+      segments.push({ type: 'text', text: template.slice(lastIndex, match.index) })
+    }
+    const source = match[1].trim()
+    try {
+      segments.push({ type: 'expression', source, node: parseExpression(source) })
+    } catch (e) {
+      segments.push({
+        type: 'expression',
+        source,
+        error: e instanceof Error ? e.message : '表达式错误'
+      })
+    }
+    lastIndex = match.index! + match[0].length
+  }
+  if (lastIndex < template.length) {
+    segments.push({ type: 'text', text: template.slice(lastIndex) })
+  }
+
+  if (templateCache.size >= TEMPLATE_CACHE_LIMIT) templateCache.clear()
+  templateCache.set(template, segments)
+  return segments
+}
+
+/**
+ * 表达式引用的全部列名
+ */
+export function getExpressionColumns(node: ExpressionNode): string[] {
+  switch (node.type) {
+    case 'literal':
+      return []
+    case 'column':
+      return [node.name]
+    case 'unary':
+      return getExpressionColumns(node.argument)
+    case 'binary':
+      return [...getExpressionColumns(node.left), ...getExpressionColumns(node.right)]
+    case 'conditional':
+      return [node.test, node.consequent, node.alternate].flatMap(getExpressionColumns)
+    case 'call':
+      return node.args.flatMap(getExpressionColumns)
+  }
+}
+
+/**
+ * 编辑器中检查模板：除语法错误外，标记引用了不存在的列的表达式
+ * @param columnNames 当前数据源的列名，为 null 时（未选择数据源）不检查列名
+ */
+export function validateTemplate(
+  template: string,
+  columnNames: string[] | null
+): TemplateSegment[] {
+  const segments = parseTemplate(template)
+  if (!columnNames) return segments
+  const known = new Set(columnNames)
+  return segments.map(segment => {
+    if (segment.type !== 'expression' || !segment.node) return segment
+    const unknown = Array.from(new Set(getExpressionColumns(segment.node))).filter(
+      name => !known.has(name)
+    )
+    return unknown.length > 0
+      ? { ...segment, error: `数据列不存在：${unknown.join('、')}` }
+      : segment
+  })
+}
+
+/**
+ * 逐行计算表达式（不含 {{ }}），用于数据源的派生列；求值出错的行为空
+ * 引用的列在该行都为空时同样为空
+ * @throws 表达式语法错误
+ */
+export function evaluateColumnExpression(
+  source: string,
+  readColumn: ColumnReader,
+  rowCount: number
+): (string | number)[] {
+  const node = parseExpression(source)
+  const columns = getExpressionColumns(node)
+  return Array.from({ length: rowCount }, (_, row) => {
+    const scope = createRowScope(readColumn, row)
+    if (columns.length > 0 && columns.every(name => isEmpty(scope.getValue(name)))) return ''
+    try {
+      const value = evaluate(node, scope)
+      return typeof value === 'number' ? Number(toText(value)) : toText(value)
+    } catch {
+      return ''
+    }
+  })
+}
+
+/**
+ * 检查派生列表达式：语法错误或引用了不存在的列时返回错误信息
+ */
+export function validateColumnExpression(source: string, columnNames: string[]): string | null {
+  try {
+    const unknown = getExpressionColumns(parseExpression(source)).filter(
+      name => !columnNames.includes(name)
+    )
+    return unknown.length > 0 ? `数据列不存在：${[...new Set(unknown)].join('、')}` : null
+  } catch (e) {
+    return e instanceof Error ? e.message : '表达式错误'
+  }
+}
+
+/**
+ * 按数据行渲染模板；表达式出错时该占位符输出为空
+ * 引用的列在该行都没有数据时（如超出数据行数的空白行）同样输出为空，避免显示计算出的 0
+ */
+export function renderTemplate(
+  template: string,
+  readColumn: ColumnReader,
+  rowIndex: number
+): string {
+  if (!hasTemplateExpression(template)) return template
+  return renderSegments(template, createRowScope(readColumn, rowIndex))
+}
+
+/**
+ * 渲染表尾模板：SUM(列名) 等统计函数汇总 rows 中的数据行，其余列引用取第一行
+ * @param format 统计结果的显示格式
+ */
+export function renderAggregateTemplate(
+  template: string,
+  readColumn: ColumnReader,
+  rows: number[],
+  format?: ValueFormat
+): string {
+  if (!hasTemplateExpression(template)) return template
+  const scope = createRowScope(readColumn, rows[0] ?? -1)
+  return renderSegments(template, { ...scope, aggregate: { readColumn, rows } }, format)
+}
+
+function renderSegments(template: string, scope: EvaluationScope, format?: ValueFormat): string {
+  return parseTemplate(template)
+    .map(segment => {
+      if (segment.type === 'text') return segment.text
+      if (!segment.node) return ''
+      const columns = getExpressionColumns(segment.node)
+      if (
+        !scope.aggregate &&
+        columns.length > 0 &&
+        columns.every(name => scope.getValue(name) === null)
+      ) {
+        return ''
+      }
+      try {
+        const value = evaluate(segment.node, scope)
+        if (!format || value === null || typeof value === 'boolean') return toText(value)
+        return formatValue(
+          typeof value === 'number' ? Number(value.toPrecision(12)) : value,
+          format
+        )
+      } catch (e) {
+        console.warn(`表达式 {{${segment.source}}} 求值失败:`, e)
+        return ''
+      }
+    })
+    .join('')
+}
@@ -0,0 +1,243 @@
+import songFontUrl from '@/assets/fonts/Song/Song.otf?url'
+import fangSongFontUrl from '@/assets/fonts/FangsongBold/HanYiCuFangSongJian-1.ttf?url'
+import type { FONT_FAMILY_OPTIONS } from '@/utils/typography'
+
+/**
+ * 字体注册表：将字体选项映射到随项目打包的字体文件
+ * PDF 与 HTML 导出时按模板实际用到的字符子集化后内嵌，不依赖查看者本机安装的字体
+ */
+
+export type RegisteredFontFamily = (typeof FONT_FAMILY_OPTIONS)[number]['value']
+
+interface BundledFontFile {
+  name: string // 英文名称，字体自身的 name 表无法解析时写入子集
+  url: string
+  type: 'ttf' | 'otf'
+}
+
+interface FontRegistryEntry {
+  id: string // 英文标识，PDF 中的字体名称只允许 ASCII 字符
+  file: BundledFontFile // 常规与粗体共用同一文件
+  localNames?: string[] // HTML 导出时优先使用的本机字体名
+}
+
+const SONG: BundledFontFile = { name: 'MFKeSong', url: songFontUrl, type: 'otf' }
+const FANG_SONG: BundledFontFile = {
+  name: 'HanYiCuFangSongJian',
+  url: fangSongFontUrl,
+  type: 'ttf'
+}
+
+const FONT_REGISTRY: Record<RegisteredFontFamily, FontRegistryEntry> = {
+  宋体: { id: 'SimSun', file: SONG },
+  仿宋: { id: 'FangSong', file: FANG_SONG },
+  仿宋_GB2312: { id: 'FangSong_GB2312', file: FANG_SONG },
+  // 微软雅黑、等线为商业字体，未随项目分发：本机没有时以宋体代替，保证排版一致
+  微软雅黑: { id: 'MicrosoftYaHei', file: SONG, localNames: ['Microsoft YaHei', '微软雅黑'] },
+  等线: { id: 'DengXian', file: SONG, localNames: ['DengXian', '等线'] }
+}
+
+// 未设置字体或字体未注册时，中文内容使用的字体
+export const DEFAULT_FONT_FAMILY: RegisteredFontFamily = '宋体'
+
+/**
+ * 字体用量：字体 → 使用该字体的全部文字
+ */
+export type FontUsage = Map<RegisteredFontFamily, string>
+
+export function findFontFamily(family?: string): RegisteredFontFamily | null {
+  if (!family) return null
+  const name = family.trim().replace(/^['"]|['"]$/g, '')
+  return name in FONT_REGISTRY ? (name as RegisteredFontFamily) : null
+}
+
+/**
+ * 解析为已注册字体，未注册时回退到默认字体
+ */
+export function resolveFontFamily(family?: string): RegisteredFontFamily {
+  return findFontFamily(family) ?? DEFAULT_FONT_FAMILY
+}
+
+export function getFontId(family: RegisteredFontFamily): string {
+  return FONT_REGISTRY[family].id
+}
+
+export function addFontUsage(usage: FontUsage, family: RegisteredFontFamily, text: string) {
+  if (!text) return
+  usage.set(family, (usage.get(family) ?? '') + text)
+}
+
+const fontFileCache = new Map<string, Promise<ArrayBuffer>>()
+
+function loadFontFile(file: BundledFontFile): Promise<ArrayBuffer> {
+  let promise = fontFileCache.get(file.url)
+  if (!promise) {
+    promise = fetch(file.url).then(response => {
+      if (!response.ok) throw new Error(`字体文件加载失败（${response.status}）`)
+      return response.arrayBuffer()
+    })
+    // 加载失败时允许下次重试
+    promise.catch(() => fontFileCache.delete(file.url))
+    fontFileCache.set(file.url, promise)
+  }
+  return promise
+}
+
+function arrayBufferToBase64(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer)
+  let binary = ''
+  // 分块转换，避免超长参数列表导致栈溢出
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  }
+  return btoa(binary)
+}
+
+/**
+ * 从 cmap、hmtx 表读取字符的步进宽度
+ * fonteditor-core 不解析 CID 字体的 FDArray，从 CFF 字形得到的宽度不可靠，OpenType 字体以 hmtx 为准
+ */
+function readAdvanceWidths(buffer: ArrayBuffer, codePoints: number[]): Map<number, number> {
+  const view = new DataView(buffer)
+  const tables = new Map<string, number>()
+  const numTables = view.getUint16(4)
+  for (let i = 0; i < numTables; i++) {
+    const record = 12 + i * 16
+    const tag = String.fromCharCode(...new Uint8Array(buffer, record, 4))
+    tables.set(tag, view.getUint32(record + 8))
+  }
+  const cmap = tables.get('cmap')
+  const hhea = tables.get('hhea')
+  const hmtx = tables.get('hmtx')
+  const widths = new Map<number, number>()
+  if (cmap === undefined || hhea === undefined || hmtx === undefined) return widths
+
+  // 优先使用 Unicode 全平面（format 12），其次 BMP（format 4）
+  let subtable = -1
+  let format = 0
+  for (let i = 0; i < view.getUint16(cmap + 2); i++) {
+    const record = cmap + 4 + i * 8
+    const offset = cmap + view.getUint32(record + 4)
+    const subtableFormat = view.getUint16(offset)
+    if (view.getUint16(record) !== 3) continue
+    if (subtableFormat === 12 || (subtableFormat === 4 && format !== 12)) {
+      subtable = offset
+      format = subtableFormat
+    }
+  }
+  if (subtable < 0) return widths
+
+  const getGlyphIndex = (code: number): number => {
+    if (format === 12) {
+      const groups = view.getUint32(subtable + 12)
+      for (let i = 0; i < groups; i++) {
+        const group = subtable + 16 + i * 12
+        const start = view.getUint32(group)
+        if (code >= start && code <= view.getUint32(group + 4)) {
+          return view.getUint32(group + 8) + code - start
+        }
+      }
+      return 0
+    }
+    if (code > 0xffff) return 0
+    const segCount = view.getUint16(subtable + 6) / 2
+    const endCodes = subtable + 14
+    const startCodes = endCodes + segCount * 2 + 2
+    const idDeltas = startCodes + segCount * 2
+    const idRangeOffsets = idDeltas + segCount * 2
+    for (let i = 0; i < segCount; i++) {
+      if (code > view.getUint16(endCodes + i * 2)) continue
+      const start = view.getUint16(startCodes + i * 2)
+      if (code < start) return 0
+      const delta = view.getInt16(idDeltas + i * 2)
+      const rangeOffset = view.getUint16(idRangeOffsets + i * 2)
+      if (rangeOffset === 0) return (code + delta) & 0xffff
+      const glyph = view.getUint16(idRangeOffsets + i * 2 + rangeOffset + (code - start) * 2)
+      return glyph === 0 ? 0 : (glyph + delta) & 0xffff
+    }
+    return 0
+  }
+
+  const numberOfHMetrics = view.getUint16(hhea + 34)
+  codePoints.forEach(code => {
+    const glyph = getGlyphIndex(code)
+    if (glyph === 0) return
+    widths.set(code, view.getUint16(hmtx + Math.min(glyph, numberOfHMetrics - 1) * 4))
+  })
+  return widths
+}
+
+/**
+ * 按用量生成字体子集，统一输出为 TrueType（jsPDF 只能嵌入 TrueType）
+ * 共用同一文件的字体只子集化一次
+ * @returns 字体 → base64 编码的 TTF 数据
+ */
+export async function createFontSubsets(
+  usage: FontUsage
+): Promise<Map<RegisteredFontFamily, string>> {
+  const groups = new Map<BundledFontFile, { families: RegisteredFontFamily[]; text: string }>()
+  usage.forEach((text, family) => {
+    const file = FONT_REGISTRY[family].file
+    const group = groups.get(file) ?? { families: [], text: '' }
+    group.families.push(family)
+    group.text += text
+    groups.set(file, group)
+  })
+
+  const result = new Map<RegisteredFontFamily, string>()
+  if (groups.size === 0) return result
+
+  // 子集化库体积较大，按需加载
+  const { Font } = await import('fonteditor-core')
+  for (const [file, group] of groups) {
+    const buffer = await loadFontFile(file)
+    // 始终保留空格，避免空白字符缺少字形
+    const codePoints = Array.from(
+      new Set(Array.from(` ${group.text}`, char => char.codePointAt(0)!))
+    )
+    const font = Font.create(buffer, {
+      type: file.type,
+      subset: codePoints,
+      hinting: false,
+      compound2simple: true
+    })
+    if (file.type === 'otf') {
+      const widths = readAdvanceWidths(buffer, codePoints)
+      font.get().glyf.forEach(glyph => {
+        const code = glyph.unicode?.find(item => widths.has(item))
+        if (code !== undefined) glyph.advanceWidth = widths.get(code)!
+      })
+    }
+    // jsPDF 依赖 name 表中的 PostScript 名称，缺失时补齐
+    const name = font.get().name
+    if (!name.postScriptName) {
+      Object.assign(name, {
+        fontFamily: file.name,
+        fontSubFamily: 'Regular',
+        uniqueSubFamily: `${file.name}-Regular`,
+        fullName: file.name,
+        version: 'Version 1.0',
+        postScriptName: file.name
+      })
+    }
+    const data = arrayBufferToBase64(font.write({ type: 'ttf', toBuffer: false }) as ArrayBuffer)
+    group.families.forEach(family => result.set(family, data))
+  }
+  return result
+}
+
+/**
+ * 生成内嵌字体子集的 @font-face 规则，常规与粗体共用同一字形
+ */
+export async function buildFontFaceCss(usage: FontUsage): Promise<string> {
+  const subsets = await createFontSubsets(usage)
+  const rules: string[] = []
+  subsets.forEach((data, family) => {
+    const locals = (FONT_REGISTRY[family].localNames ?? []).map(name => `local('${name}')`)
+    const sources = [...locals, `url(data:font/ttf;base64,${data}) format('truetype')`]
+    rules.push(
+      `@font-face { font-family: '${family}'; src: ${sources.join(', ')}; font-weight: 100 900; font-style: normal; }`
+    )
+  })
+  return rules.join('\n')
+}
@@ -0,0 +1,103 @@
+import type { DataColumn, DataColumnType, DataSource, Template } from '@/types'
+import { collectTemplateBindings } from '@/utils/bindingCheck'
+import { getRowCount } from '@/utils/dataGrid'
+import { getNativeColumns } from '@/utils/derivedColumn'
+import { inferColumnType } from '@/utils/format'
+import { getTemplateSource } from '@/utils/templateDataSource'
+
+/**
+ * 手工填写：按模板默认数据源上绑定的字段生成输入表单，
+ * 填写中的记录作为只有一行的数据源用于实时预览，提交后追加到数据源末尾
+ */
+
+export interface FormFillField {
+  name: string // 组件绑定的字段名或列名
+  column: string // 按字段映射对应到的数据列，记录按该列名保存
+  type: DataColumnType
+  required: boolean
+  sample?: string
+}
+
+export type FormRecord = Record<string, string | number>
+
+/**
+ * 表单字段：按绑定出现的顺序，同一数据列只填写一次；派生列由其他列计算，不需要填写
+ * @param target 默认数据源读取的数据文件，用于确定字段类型
+ */
+export function collectFormFields(
+  template: Pick<Template, 'widgets' | 'relations' | 'dataSources' | 'fields'>,
+  target: DataSource | null | undefined
+): FormFillField[] {
+  const defaultSource = getTemplateSource(template.dataSources)
+  const result: FormFillField[] = []
+  collectTemplateBindings(template).forEach(binding => {
+    if (getTemplateSource(template.dataSources, binding.source) !== defaultSource) return
+    const column = defaultSource?.mapping?.[binding.column] || binding.column
+    if (result.some(field => field.column === column)) return
+    const dataColumn = target?.columns.find(col => col.name === column)
+    if (dataColumn?.derived) return
+    const field = template.fields?.find(item => item.name === binding.column)
+    result.push({
+      name: binding.column,
+      column,
+      type: dataColumn?.typeOverride ?? field?.type ?? dataColumn?.type ?? 'text',
+      required: !!field?.required,
+      sample: field?.sample
+    })
+  })
+  return result
+}
+
+/**
+ * 未填写的必填字段名称
+ */
+export function findMissingFields(fields: FormFillField[], record: FormRecord): string[] {
+  return fields
+    .filter(field => field.required && String(record[field.column] ?? '').trim() === '')
+    .map(field => field.name)
+}
+
+/**
+ * 填写中的记录转为只有一行的数据源，沿用目标数据源的列类型与派生列定义
+ */
+export function createDraftDataSource(
+  fileName: string,
+  fields: FormFillField[],
+  record: FormRecord,
+  target: DataSource | null | undefined
+): DataSource {
+  const columns = fields.map((field): DataColumn => {
+    const dataColumn = target?.columns.find(col => col.name === field.column)
+    return {
+      name: field.column,
+      data: [record[field.column] ?? ''],
+      type: dataColumn?.type ?? field.type,
+      ...(dataColumn?.typeOverride ? { typeOverride: dataColumn.typeOverride } : {})
+    }
+  })
+  return { fileName, columns, derivedColumns: target?.derivedColumns }
+}
+
+/**
+ * 在数据源末尾追加一行：记录中没有的列留空，数据源中没有的列新增在后面，之前的行留空；
+ * 派生列不保留，保存时重新计算
+ */
+export function appendRecord(
+  dataSource: DataSource | null | undefined,
+  fileName: string,
+  record: FormRecord
+): DataSource {
+  const native = dataSource ? getNativeColumns(dataSource) : []
+  const rowCount = getRowCount({ fileName, columns: native })
+  const columns = native.map(column => {
+    const data = [...column.data, record[column.name] ?? '']
+    return { ...column, data, type: inferColumnType(data) }
+  })
+  Object.keys(record)
+    .filter(name => !columns.some(col => col.name === name))
+    .forEach(name => {
+      const data = [...Array.from({ length: rowCount }, () => ''), record[name]]
+      columns.push({ name, data, type: inferColumnType(data) })
+    })
+  return { ...(dataSource ?? {}), fileName, columns }
+}
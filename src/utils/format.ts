@@ -0,0 +1,260 @@
+import type { DataColumnType, TableCell, TableWidget, ValueFormat } from '@/types'
+
+/**
+ * 数据列类型推断与绑定值格式化
+ * 画布、预览、HTML 与 PDF 导出共用，保证各处显示一致
+ */
+
+export const DATA_COLUMN_TYPE_OPTIONS: Array<{ label: string; value: DataColumnType }> = [
+  { label: '文本', value: 'text' },
+  { label: '数字', value: 'number' },
+  { label: '日期', value: 'date' },
+  { label: '是/否', value: 'boolean' }
+]
+
+export const VALUE_FORMAT_OPTIONS: Array<{ label: string; value: ValueFormat['type'] }> = [
+  { label: '数字', value: 'number' },
+  { label: '货币', value: 'currency' },
+  { label: '百分比', value: 'percent' },
+  { label: '日期', value: 'date' },
+  { label: '人民币大写', value: 'rmbUppercase' }
+]
+
+export const DATE_PATTERN_OPTIONS = [
+  'yyyy-MM-dd',
+  'yyyy/MM/dd',
+  'yyyy年MM月dd日',
+  'yyyy年M月d日',
+  'yyyy-MM-dd HH:mm',
+  'MM/dd/yyyy'
+]
+
+/**
+ * 各格式类型的默认设置，切换格式类型时使用
+ */
+export function createValueFormat(type: ValueFormat['type']): ValueFormat {
+  switch (type) {
+    case 'number':
+      return { type, thousands: false }
+    case 'currency':
+      return { type, decimals: 2, thousands: true, currencySymbol: '¥' }
+    case 'percent':
+      return { type, decimals: 0 }
+    case 'date':
+      return { type, datePattern: 'yyyy-MM-dd' }
+    case 'rmbUppercase':
+      return { type }
+  }
+}
+
+// ==================== 解析 ====================
+
+const NUMBER_PATTERN = /^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i
+const DATE_PATTERN =
+  /^(\d{4})[-/.年](\d{1,2})[-/.月](\d{1,2})日?(?:[ T](\d{1,2}):(\d{1,2})(?::(\d{1,2}))?)?$/
+const BOOLEAN_VALUES = ['是', '否', 'true', 'false']
+
+// Excel 日期序号的有效范围（1900-01-01 至 9999-12-31）
+const EXCEL_SERIAL_MIN = 1
+const EXCEL_SERIAL_MAX = 2958465
+
+/**
+ * 解析数字，兼容千分位、货币符号、百分号与会计格式的括号负数
+ */
+export function parseNumber(value: string | number): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null
+  let text = value.trim().replace(/[,，\s]/g, '')
+  if (!text) return null
+  let negative = false
+  if (/^\(.*\)$/.test(text)) {
+    negative = true
+    text = text.slice(1, -1)
+  }
+  text = text.replace(/^([+-]?)[¥￥$€£]/, '$1')
+  const isPercent = text.endsWith('%')
+  if (isPercent) text = text.slice(0, -1)
+  if (!NUMBER_PATTERN.test(text)) return null
+  const number = Number(text) / (isPercent ? 100 : 1)
+  return negative ? -number : number
+}
+
+/**
+ * 解析日期：支持 yyyy-MM-dd、yyyy/M/d、yyyy年M月d日（可带时间）
+ * 日期列中的数字按 Excel 日期序号解析
+ */
+export function parseDate(value: string | number, columnType?: DataColumnType): Date | null {
+  if (typeof value === 'number') {
+    if (columnType !== 'date' || value < EXCEL_SERIAL_MIN || value > EXCEL_SERIAL_MAX) return null
+    // 序号 25569 对应 1970-01-01，按 UTC 换算后取日期部分，避免时区偏移
+    const utc = new Date(Math.round((value - 25569) * 86400000))
+    return new Date(
+      utc.getUTCFullYear(),
+      utc.getUTCMonth(),
+      utc.getUTCDate(),
+      utc.getUTCHours(),
+      utc.getUTCMinutes(),
+      utc.getUTCSeconds()
+    )
+  }
+  const match = value.trim().match(DATE_PATTERN)
+  if (!match) return null
+  const [, year, month, day, hour = '0', minute = '0', second = '0'] = match
+  const date = new Date(+year, +month - 1, +day, +hour, +minute, +second)
+  // 排除 2 月 30 日等不存在的日期
+  if (date.getMonth() !== +month - 1 || date.getDate() !== +day) return null
+  return date
+}
+
+/**
+ * 根据列数据推断类型，空值不参与判断
+ */
+export function inferColumnType(data: (string | number)[]): DataColumnType {
+  const values = data.filter(value => String(value).trim() !== '')
+  if (values.length === 0) return 'text'
+  if (values.every(value => typeof value === 'string' && parseDate(value))) return 'date'
+  if (values.every(value => BOOLEAN_VALUES.includes(String(value).trim().toLowerCase()))) {
+    return 'boolean'
+  }
+  // 以 0 开头的编号（如 00123）按文本处理，避免格式化后丢失前导零
+  const isNumeric = (value: string | number) =>
+    parseNumber(value) !== null && !/^0\d/.test(String(value).trim())
+  if (values.every(isNumeric)) return 'number'
+  return 'text'
+}
+
+// ==================== 格式化 ====================
+
+function pad(value: number, length = 2): string {
+  return String(value).padStart(length, '0')
+}
+
+/**
+ * 按模式格式化日期：yyyy/yy 年，MM/M 月，dd/d 日，HH/H 时，mm/m 分，ss/s 秒
+ */
+export function formatDate(date: Date, pattern: string): string {
+  const tokens: Record<string, string> = {
+    yyyy: String(date.getFullYear()),
+    yy: pad(date.getFullYear() % 100),
+    MM: pad(date.getMonth() + 1),
+    M: String(date.getMonth() + 1),
+    dd: pad(date.getDate()),
+    d: String(date.getDate()),
+    HH: pad(date.getHours()),
+    H: String(date.getHours()),
+    mm: pad(date.getMinutes()),
+    m: String(date.getMinutes()),
+    ss: pad(date.getSeconds()),
+    s: String(date.getSeconds())
+  }
+  return pattern.replace(/yyyy|yy|MM|M|dd|d|HH|H|mm|m|ss|s/g, token => tokens[token])
+}
+
+/**
+ * 格式化数字：decimals 未设置时保留原有精度
+ */
+export function formatNumber(value: number, decimals?: number, thousands = false): string {
+  const text = decimals === undefined ? String(value) : value.toFixed(decimals)
+  if (!thousands) return text
+  const [integer, fraction] = text.split('.')
+  const grouped = integer.replace(/\B(?=(\d{3})+(?!\d))/g, ',')
+  return fraction === undefined ? grouped : `${grouped}.${fraction}`
+}
+
+const RMB_DIGITS = '零壹贰叁肆伍陆柒捌玖'
+const RMB_UNITS = ['', '拾', '佰', '仟']
+const RMB_SECTIONS = ['', '万', '亿', '万亿']
+
+function integerToRmbUppercase(value: number): string {
+  const text = String(value)
+  let result = ''
+  let zeroPending = false
+  for (let i = 0; i < text.length; i++) {
+    const digit = Number(text[i])
+    const position = text.length - 1 - i
+    if (digit === 0) {
+      zeroPending = true
+    } else {
+      if (zeroPending) result += '零'
+      zeroPending = false
+      result += RMB_DIGITS[digit] + RMB_UNITS[position % 4]
+    }
+    // 每四位一节，整节为零时不写节名
+    if (position % 4 === 0 && position > 0) {
+      const section = text.slice(Math.max(0, i - 3), i + 1)
+      if (Number(section) !== 0) result += RMB_SECTIONS[position / 4]
+    }
+  }
+  return result
+}
+
+/**
+ * 人民币大写金额，如 1234.5 → 壹仟贰佰叁拾肆元伍角整
+ */
+export function toRmbUppercase(value: number): string {
+  // 先消除浮点误差再取整，如 1.005 * 100 = 100.49999999999999 应为 101 分；
+  // 保留 15 位有效数字，千亿元以上的金额也不会丢失角分
+  const cents = Math.round(Number((Math.abs(value) * 100).toPrecision(15)))
+  const yuan = Math.floor(cents / 100)
+  if (yuan >= 1e16) return String(value)
+  const jiao = Math.floor(cents / 10) % 10
+  const fen = cents % 10
+
+  let result = yuan > 0 ? `${integerToRmbUppercase(yuan)}元` : ''
+  if (jiao === 0 && fen === 0) {
+    result = `${result || '零元'}整`
+  } else {
+    if (jiao > 0) result += `${RMB_DIGITS[jiao]}角`
+    else if (yuan > 0) result += '零'
+    result += fen > 0 ? `${RMB_DIGITS[fen]}分` : '整'
+  }
+  return value < 0 && cents > 0 ? `负${result}` : result
+}
+
+/**
+ * 按格式显示绑定值；未设置格式或无法解析时原样显示
+ */
+export function formatValue(
+  value: string | number | undefined | null,
+  format?: ValueFormat,
+  columnType?: DataColumnType
+): string {
+  if (value === undefined || value === null || value === '') return ''
+  if (!format) return String(value)
+
+  if (format.type === 'date') {
+    const date = parseDate(value, columnType)
+    return date ? formatDate(date, format.datePattern || 'yyyy-MM-dd') : String(value)
+  }
+
+  const number = parseNumber(value)
+  if (number === null) return String(value)
+  switch (format.type) {
+    case 'number':
+      return formatNumber(number, format.decimals, format.thousands)
+    case 'currency': {
+      const text = formatNumber(Math.abs(number), format.decimals ?? 2, format.thousands)
+      return `${number < 0 ? '-' : ''}${format.currencySymbol ?? '¥'}${text}`
+    }
+    case 'percent': {
+      // 消除乘以 100 产生的浮点误差，如 0.07 → 7.000000000000001
+      const percent = Number((number * 100).toPrecision(12))
+      return `${formatNumber(percent, format.decimals, format.thousands)}%`
+    }
+    case 'rmbUppercase':
+      return toRmbUppercase(number)
+    default:
+      return String(value)
+  }
+}
+
+/**
+ * 表格单元格绑定的显示格式：单元格自身的格式优先，列绑定的单元格使用列格式
+ */
+export function getTableCellFormat(
+  widget: Pick<TableWidget, 'columnFormats'>,
+  col: number,
+  cell?: Pick<TableCell, 'dataSource' | 'format'> | null
+): ValueFormat | undefined {
+  if (cell?.format) return cell.format
+  return cell?.dataSource ? undefined : widget.columnFormats?.[col]
+}
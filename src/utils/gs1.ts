@@ -0,0 +1,150 @@
+/**
+ * GS1 应用标识符（AI）解析与校验
+ * 供 GS1-128 与 GS1 Data Matrix 共用，输入采用人眼可读格式，如 (01)06901234567892(10)ABC123
+ */
+
+export interface GS1Element {
+  ai: string
+  value: string
+}
+
+interface GS1AIDefinition {
+  pattern: RegExp // 匹配 AI
+  title: string
+  charset: 'n' | 'an'
+  minLength: number
+  maxLength: number
+  check?: boolean // 末位为 GS1 校验位
+  date?: boolean
+}
+
+// 元素串内部用 ASCII GS 表示 FNC1 分隔符，由各码制编码器转换为对应码字
+export const GS1_SEPARATOR = '\x1d'
+
+// 常用 AI 定义（节选自 GS1 通用规范）
+const AI_DEFINITIONS: GS1AIDefinition[] = [
+  { pattern: /^00$/, title: 'SSCC', charset: 'n', minLength: 18, maxLength: 18, check: true },
+  { pattern: /^0[12]$/, title: 'GTIN', charset: 'n', minLength: 14, maxLength: 14, check: true },
+  { pattern: /^10$/, title: '批号', charset: 'an', minLength: 1, maxLength: 20 },
+  { pattern: /^1[1-7]$/, title: '日期', charset: 'n', minLength: 6, maxLength: 6, date: true },
+  { pattern: /^20$/, title: '产品变体', charset: 'n', minLength: 2, maxLength: 2 },
+  { pattern: /^2[12]$/, title: '序列号', charset: 'an', minLength: 1, maxLength: 20 },
+  { pattern: /^235$/, title: '第三方控制 GTIN', charset: 'an', minLength: 1, maxLength: 28 },
+  { pattern: /^24[01]$/, title: '附加标识', charset: 'an', minLength: 1, maxLength: 30 },
+  { pattern: /^242$/, title: '定制产品变体', charset: 'n', minLength: 1, maxLength: 6 },
+  { pattern: /^25[01]$/, title: '源实体参考', charset: 'an', minLength: 1, maxLength: 30 },
+  { pattern: /^254$/, title: 'GLN 扩展', charset: 'an', minLength: 1, maxLength: 20 },
+  { pattern: /^3[07]$/, title: '数量', charset: 'n', minLength: 1, maxLength: 8 },
+  { pattern: /^3[1-6]\d\d$/, title: '计量值', charset: 'n', minLength: 6, maxLength: 6 },
+  { pattern: /^39[0-3]\d$/, title: '金额', charset: 'n', minLength: 1, maxLength: 18 },
+  { pattern: /^40[013]$/, title: '订单/路线', charset: 'an', minLength: 1, maxLength: 30 },
+  { pattern: /^402$/, title: 'GSIN', charset: 'n', minLength: 17, maxLength: 17, check: true },
+  { pattern: /^41[0-7]$/, title: 'GLN', charset: 'n', minLength: 13, maxLength: 13, check: true },
+  { pattern: /^420$/, title: '收货邮编', charset: 'an', minLength: 1, maxLength: 20 },
+  { pattern: /^421$/, title: '收货邮编（含国家代码）', charset: 'an', minLength: 4, maxLength: 12 },
+  { pattern: /^42[246]$/, title: '国家代码', charset: 'n', minLength: 3, maxLength: 3 },
+  { pattern: /^42[35]$/, title: '国家代码', charset: 'n', minLength: 4, maxLength: 15 },
+  { pattern: /^7001$/, title: 'NSN', charset: 'n', minLength: 13, maxLength: 13 },
+  { pattern: /^7003$/, title: '有效期时间', charset: 'n', minLength: 10, maxLength: 10 },
+  { pattern: /^8004$/, title: 'GIAI', charset: 'an', minLength: 1, maxLength: 30 },
+  { pattern: /^8005$/, title: '单价', charset: 'n', minLength: 6, maxLength: 6 },
+  { pattern: /^8008$/, title: '生产时间', charset: 'n', minLength: 8, maxLength: 12 },
+  { pattern: /^8020$/, title: '付款单号', charset: 'an', minLength: 1, maxLength: 25 },
+  { pattern: /^90$/, title: '内部信息', charset: 'an', minLength: 1, maxLength: 30 },
+  { pattern: /^9[1-9]$/, title: '企业内部信息', charset: 'an', minLength: 1, maxLength: 90 }
+]
+
+// 预定义长度的 AI 前两位，这些元素之后无需 FNC1 分隔符
+const PREDEFINED_LENGTH_PREFIXES = [
+  '00', '01', '02', '03', '04', '11', '12', '13', '14', '15', '16', '17', '18', '19', '20',
+  '31', '32', '33', '34', '35', '36', '41'
+] // prettier-ignore
+
+// GS1 允许的字符集（ISO 646 子集，共 82 个字符）
+const GS1_CHARSET = /^[!"%&'()*+,\-./0-9:;<=>?A-Z_a-z]*$/
+
+/**
+ * 计算 GS1 标准 Mod10 校验位（EAN/UPC/ITF-14/SSCC 通用）
+ * @param digits 不含校验位的数字串
+ */
+export function gs1CheckDigit(digits: string): number {
+  let sum = 0
+  for (let i = 0; i < digits.length; i++) {
+    const digit = Number(digits[digits.length - 1 - i])
+    sum += i % 2 === 0 ? digit * 3 : digit
+  }
+  return (10 - (sum % 10)) % 10
+}
+
+function validateElement(ai: string, value: string) {
+  const definition = AI_DEFINITIONS.find(def => def.pattern.test(ai))
+  if (!definition) {
+    throw new Error(`不支持的应用标识符 (${ai})`)
+  }
+  const { title, charset, minLength, maxLength } = definition
+  if (value.length < minLength || value.length > maxLength) {
+    const expected = minLength === maxLength ? `${minLength} 位` : `${minLength}-${maxLength} 位`
+    throw new Error(`(${ai}) ${title} 长度应为 ${expected}，当前为 ${value.length} 位`)
+  }
+  if (charset === 'n' && !/^\d+$/.test(value)) {
+    throw new Error(`(${ai}) ${title} 只能包含数字`)
+  }
+  if (charset === 'an' && !GS1_CHARSET.test(value)) {
+    throw new Error(`(${ai}) ${title} 包含 GS1 不允许的字符`)
+  }
+  if (definition.check) {
+    const expected = gs1CheckDigit(value.slice(0, -1))
+    if (Number(value[value.length - 1]) !== expected) {
+      throw new Error(`(${ai}) ${title} 校验位错误，应为 ${expected}`)
+    }
+  }
+  if (definition.date) {
+    const month = Number(value.slice(2, 4))
+    const day = Number(value.slice(4, 6))
+    // 日为 00 表示当月最后一天
+    if (month < 1 || month > 12 || day > 31) {
+      throw new Error(`(${ai}) ${title} 不是有效的 YYMMDD 日期`)
+    }
+  }
+}
+
+/**
+ * 解析 (AI)数据 格式的 GS1 内容，不合法时抛出带中文说明的错误
+ */
+export function parseGS1(text: string): GS1Element[] {
+  const input = text.trim()
+  if (!input) throw new Error('条码内容不能为空')
+  if (!/^(\(\d{2,4}\)[^()]+)+$/.test(input)) {
+    throw new Error('GS1 内容需使用 (AI)数据 格式，例如 (01)06901234567892(10)ABC123')
+  }
+
+  const elements: GS1Element[] = []
+  const regex = /\((\d{2,4})\)([^()]+)/g
+  let match: RegExpExecArray | null
+  while ((match = regex.exec(input))) {
+    const [, ai, value] = match
+    validateElement(ai, value)
+    elements.push({ ai, value })
+  }
+  return elements
+}
+
+/**
+ * 元素串：AI 与数据直接拼接，变长元素（非最后一个）之后插入 FNC1 分隔符
+ */
+export function gs1ElementString(elements: GS1Element[]): string {
+  return elements
+    .map((element, index) => {
+      const needsSeparator =
+        index < elements.length - 1 && !PREDEFINED_LENGTH_PREFIXES.includes(element.ai.slice(0, 2))
+      return element.ai + element.value + (needsSeparator ? GS1_SEPARATOR : '')
+    })
+    .join('')
+}
+
+/**
+ * 人眼可读文本，如 (01)06901234567892(10)ABC123
+ */
+export function gs1HumanReadable(elements: GS1Element[]): string {
+  return elements.map(element => `(${element.ai})${element.value}`).join('')
+}
@@ -1,11 +1,82 @@
-import type { DataSource, Template } from '@/types'
-import { cloneDeep } from 'lodash-es'
+import type { DataColumn, DataSource, Template } from '@/types'
+import { cloneDeep, omit } from 'lodash-es'
 
 const DB_NAME = 'PrintEditorDB'
-const DB_VERSION = 2
-const DATA_SOURCE_STORE = 'dataSources'
+const DATA_SOURCE_STORE = 'dataSources' // 版本 3 之前整个数据源保存为一条记录
+const DATA_SOURCE_META_STORE = 'dataSourceMeta'
+const ROW_CHUNK_STORE = 'dataSourceRows'
 const TEMPLATE_STORE = 'templates'
 
+// 每块保存的数据行数
+export const ROW_CHUNK_SIZE = 1000
+
+/**
+ * 数据源元数据：列名、类型、合并单元格与导入设置，不含列中的数据
+ */
+export type DataSourceMeta = Omit<DataSource, 'columns'> & {
+  columns: Omit<DataColumn, 'data'>[]
+  rowCount: number
+}
+
+/**
+ * 一块数据行，columns 与元数据中的列一一对应
+ */
+interface RowChunk {
+  fileName: string
+  index: number
+  columns: (string | number)[][]
+}
+
+type Migration = (database: IDBDatabase, transaction: IDBTransaction) => void
+
+/**
+ * 数据库迁移：第 i 项把数据库从版本 i 升级到 i + 1，打开时依次执行原版本之后的各项；
+ * 新增迁移只能追加在末尾，已发布的迁移不再修改
+ */
+const MIGRATIONS: Migration[] = [
+  // 1：数据源与模板
+  database => {
+    database.createObjectStore(DATA_SOURCE_STORE, { keyPath: 'fileName' })
+    database.createObjectStore(TEMPLATE_STORE, { keyPath: 'id' })
+  },
+  // 2：模板按名称与更新时间建立索引
+  (database, transaction) => {
+    if (!database.objectStoreNames.contains(TEMPLATE_STORE)) {
+      database.createObjectStore(TEMPLATE_STORE, { keyPath: 'id' })
+    }
+    const templateStore = transaction.objectStore(TEMPLATE_STORE)
+    if (!templateStore.indexNames.contains('name')) {
+      templateStore.createIndex('name', 'name', { unique: false })
+    }
+    if (!templateStore.indexNames.contains('updatedAt')) {
+      templateStore.createIndex('updatedAt', 'updatedAt', { unique: false })
+    }
+  },
+  // 3：数据源拆分为元数据与分块保存的数据行，原有记录逐条转换
+  (database, transaction) => {
+    database.createObjectStore(DATA_SOURCE_META_STORE, { keyPath: 'fileName' })
+    const rowStore = database.createObjectStore(ROW_CHUNK_STORE, {
+      keyPath: ['fileName', 'index']
+    })
+    if (!database.objectStoreNames.contains(DATA_SOURCE_STORE)) return
+    const metaStore = transaction.objectStore(DATA_SOURCE_META_STORE)
+    const request = transaction.objectStore(DATA_SOURCE_STORE).openCursor()
+    request.onsuccess = () => {
+      const cursor = request.result
+      if (!cursor) {
+        database.deleteObjectStore(DATA_SOURCE_STORE)
+        return
+      }
+      const dataSource = cursor.value as DataSource
+      metaStore.put(toMeta(dataSource))
+      toRowChunks(dataSource).forEach(chunk => rowStore.put(chunk))
+      cursor.continue()
+    }
+  }
+]
+
+const DB_VERSION = MIGRATIONS.length
+
 let db: IDBDatabase | null = null
 
 export async function openDB(): Promise<IDBDatabase> {
@@ -20,22 +91,20 @@ export async function openDB(): Promise<IDBDatabase> {
 
     request.onsuccess = () => {
       db = request.result
+      // 其他页面升级数据库时关闭连接，下次使用时重新打开
+      db.onversionchange = () => {
+        db?.close()
+        db = null
+      }
       resolve(db)
     }
 
     request.onupgradeneeded = event => {
-      const database = (event.target as IDBOpenDBRequest).result
-
-      // 数据源存储
-      if (!database.objectStoreNames.contains(DATA_SOURCE_STORE)) {
-        database.createObjectStore(DATA_SOURCE_STORE, { keyPath: 'fileName' })
-      }
-
-      // 模板存储
-      if (!database.objectStoreNames.contains(TEMPLATE_STORE)) {
-        const templateStore = database.createObjectStore(TEMPLATE_STORE, { keyPath: 'id' })
-        templateStore.createIndex('name', 'name', { unique: false })
-        templateStore.createIndex('updatedAt', 'updatedAt', { unique: false })
+      const database = request.result
+      const transaction = request.transaction!
+      for (let version = event.oldVersion; version < DB_VERSION; version++) {
+        console.log(`数据库升级到版本 ${version + 1}`)
+        MIGRATIONS[version](database, transaction)
       }
     }
   })
@@ -43,43 +112,118 @@ export async function openDB(): Promise<IDBDatabase> {
 
 // ==================== 数据源操作 ====================
 
+function getRowCount(dataSource: DataSource): number {
+  return Math.max(0, ...dataSource.columns.map(col => col.data.length))
+}
+
+function toMeta(dataSource: DataSource): DataSourceMeta {
+  // 使用 cloneDeep 去除 Vue 的响应式代理，防止 DataCloneError
+  return cloneDeep({
+    ...dataSource,
+    columns: dataSource.columns.map(column => omit(column, 'data')),
+    rowCount: getRowCount(dataSource)
+  })
+}
+
+/**
+ * 未读取的行在列数据中为空位，按空值保存会覆盖已存储的数据，因此拒绝保存
+ */
+function assertRowsLoaded(dataSource: DataSource) {
+  const hasHole = dataSource.columns.some(col =>
+    Array.from(col.data).some(value => value === undefined)
+  )
+  if (hasHole) {
+    throw new Error(`数据源 ${dataSource.fileName} 还有未读取的数据行，不能保存`)
+  }
+}
+
+function toRowChunks(dataSource: DataSource): RowChunk[] {
+  const rowCount = getRowCount(dataSource)
+  return Array.from({ length: Math.ceil(rowCount / ROW_CHUNK_SIZE) }, (_, index) => {
+    const start = index * ROW_CHUNK_SIZE
+    return {
+      fileName: dataSource.fileName,
+      index,
+      columns: dataSource.columns.map(col =>
+        Array.from(col.data.slice(start, start + ROW_CHUNK_SIZE), value => value ?? '')
+      )
+    }
+  })
+}
+
+// 数据源的全部数据块
+function getChunkRange(fileName: string, from = 0, to = Infinity): IDBKeyRange {
+  return IDBKeyRange.bound([fileName, from], [fileName, to])
+}
+
+/**
+ * 保存数据源：元数据与全部数据行，替换原有的数据块
+ */
 export async function saveDataSource(dataSource: DataSource): Promise<void> {
+  // 在删除原有数据块之前检查
+  assertRowsLoaded(dataSource)
   const database = await openDB()
 
   return new Promise((resolve, reject) => {
-    const transaction = database.transaction([DATA_SOURCE_STORE], 'readwrite')
-    const store = transaction.objectStore(DATA_SOURCE_STORE)
-    // 使用 cloneDeep 去除 Vue 的响应式代理，防止 DataCloneError
-    const request = store.put(cloneDeep(dataSource))
+    const transaction = database.transaction([DATA_SOURCE_META_STORE, ROW_CHUNK_STORE], 'readwrite')
+    const rowStore = transaction.objectStore(ROW_CHUNK_STORE)
+    transaction.objectStore(DATA_SOURCE_META_STORE).put(toMeta(dataSource))
+    rowStore.delete(getChunkRange(dataSource.fileName))
+    toRowChunks(dataSource).forEach(chunk => rowStore.put(chunk))
+
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(new Error('保存数据源失败'))
+  })
+}
+
+/**
+ * 只保存元数据，如修改列类型；数据行不变
+ */
+export async function saveDataSourceMeta(dataSource: DataSource): Promise<void> {
+  const database = await openDB()
+
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction([DATA_SOURCE_META_STORE], 'readwrite')
+    const request = transaction.objectStore(DATA_SOURCE_META_STORE).put(toMeta(dataSource))
 
     request.onsuccess = () => resolve()
     request.onerror = () => reject(new Error('保存数据源失败'))
   })
 }
 
-export async function getDataSource(fileName: string): Promise<DataSource | null> {
+/**
+ * 读取全部数据源的元数据，数据行按需通过 getRowChunks 读取
+ */
+export async function getAllDataSourceMetas(): Promise<DataSourceMeta[]> {
   const database = await openDB()
 
   return new Promise((resolve, reject) => {
-    const transaction = database.transaction([DATA_SOURCE_STORE], 'readonly')
-    const store = transaction.objectStore(DATA_SOURCE_STORE)
-    const request = store.get(fileName)
+    const transaction = database.transaction([DATA_SOURCE_META_STORE], 'readonly')
+    const request = transaction.objectStore(DATA_SOURCE_META_STORE).getAll()
 
-    request.onsuccess = () => resolve(request.result || null)
-    request.onerror = () => reject(new Error('读取数据源失败'))
+    request.onsuccess = () => resolve(request.result || [])
+    request.onerror = () => reject(new Error('读取所有数据源失败'))
   })
 }
 
-export async function getAllDataSources(): Promise<DataSource[]> {
+/**
+ * 读取第 from 到 to 块（含）数据行
+ */
+export async function getRowChunks(
+  fileName: string,
+  from: number,
+  to: number
+): Promise<RowChunk[]> {
   const database = await openDB()
 
   return new Promise((resolve, reject) => {
-    const transaction = database.transaction([DATA_SOURCE_STORE], 'readonly')
-    const store = transaction.objectStore(DATA_SOURCE_STORE)
-    const request = store.getAll()
+    const transaction = database.transaction([ROW_CHUNK_STORE], 'readonly')
+    const request = transaction
+      .objectStore(ROW_CHUNK_STORE)
+      .getAll(getChunkRange(fileName, from, to))
 
     request.onsuccess = () => resolve(request.result || [])
-    request.onerror = () => reject(new Error('读取所有数据源失败'))
+    request.onerror = () => reject(new Error('读取数据行失败'))
   })
 }
 
@@ -87,12 +231,12 @@ export async function deleteDataSource(fileName: string): Promise<void> {
   const database = await openDB()
 
   return new Promise((resolve, reject) => {
-    const transaction = database.transaction([DATA_SOURCE_STORE], 'readwrite')
-    const store = transaction.objectStore(DATA_SOURCE_STORE)
-    const request = store.delete(fileName)
+    const transaction = database.transaction([DATA_SOURCE_META_STORE, ROW_CHUNK_STORE], 'readwrite')
+    transaction.objectStore(DATA_SOURCE_META_STORE).delete(fileName)
+    transaction.objectStore(ROW_CHUNK_STORE).delete(getChunkRange(fileName))
 
-    request.onsuccess = () => resolve()
-    request.onerror = () => reject(new Error('删除数据源失败'))
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(new Error('删除数据源失败'))
   })
 }
 
@@ -0,0 +1,140 @@
+import type { QRCodeWidget } from '@/types'
+import { encodeDataMatrix } from '@/utils/datamatrix'
+import { encodePDF417 } from '@/utils/pdf417'
+import { encodeQRCode } from '@/utils/qrcode'
+import type { QRErrorCorrectionLevel } from '@/utils/qrcode'
+
+export type MatrixCodeFormat = NonNullable<QRCodeWidget['format']>
+
+/**
+ * 二维码制统一的模块矩阵
+ * modules[y][x] 为 true 表示深色模块，rowHeight 为每行高度（以模块宽度为单位）
+ */
+export interface MatrixCodeSymbol {
+  modules: boolean[][]
+  rowHeight: number
+}
+
+export interface MatrixCodeRenderOptions {
+  width: number // px
+  height: number // px
+  errorCorrectionLevel?: QRErrorCorrectionLevel
+  margin?: number // 静区宽度（模块数）
+  foreground?: string
+  background?: string
+}
+
+export const MATRIX_CODE_FORMATS: Array<{ label: string; value: MatrixCodeFormat }> = [
+  { label: 'QR Code', value: 'QR' },
+  { label: 'Data Matrix', value: 'DATAMATRIX' },
+  { label: 'PDF417', value: 'PDF417' }
+]
+
+/**
+ * 各码制的默认静区宽度（模块数）
+ */
+export function defaultMatrixCodeMargin(format: MatrixCodeFormat = 'QR'): number {
+  return format === 'QR' ? 4 : 2
+}
+
+/**
+ * 按码制编码，内容不合法时抛出带中文说明的错误
+ * aspectRatio 为组件宽高比，PDF417 据此选择列数
+ */
+export function encodeMatrixCode(
+  value: string,
+  format: MatrixCodeFormat = 'QR',
+  options: { errorCorrectionLevel?: QRErrorCorrectionLevel; aspectRatio?: number } = {}
+): MatrixCodeSymbol {
+  switch (format) {
+    case 'DATAMATRIX':
+      return { modules: encodeDataMatrix(value).modules, rowHeight: 1 }
+    case 'PDF417': {
+      const symbol = encodePDF417(value, { aspectRatio: options.aspectRatio })
+      return { modules: symbol.modules, rowHeight: symbol.rowHeight }
+    }
+    case 'QR':
+      return { modules: encodeQRCode(value, options.errorCorrectionLevel).modules, rowHeight: 1 }
+    default:
+      throw new Error(`不支持的码制：${format}`)
+  }
+}
+
+/**
+ * 校验内容，返回错误信息；合法时返回 null
+ */
+export function validateMatrixCode(
+  value: string,
+  format: MatrixCodeFormat = 'QR',
+  errorCorrectionLevel?: QRErrorCorrectionLevel
+): string | null {
+  try {
+    encodeMatrixCode(value, format, { errorCorrectionLevel })
+    return null
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error)
+  }
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+/**
+ * 生成二维码 SVG 字符串，编辑器画布、预览与 HTML 导出共用
+ * 以模块为 viewBox 单位，组件宽高比与符号不一致时居中等比缩放
+ */
+export function renderMatrixCodeSvg(
+  value: string,
+  format: MatrixCodeFormat | undefined,
+  options: MatrixCodeRenderOptions
+): { svg: string; error: null } | { svg: null; error: string } {
+  const width = Math.max(options.width, 1)
+  const height = Math.max(options.height, 1)
+
+  let symbol: MatrixCodeSymbol
+  try {
+    symbol = encodeMatrixCode(value, format, {
+      errorCorrectionLevel: options.errorCorrectionLevel,
+      aspectRatio: width / height
+    })
+  } catch (error) {
+    return { svg: null, error: error instanceof Error ? error.message : String(error) }
+  }
+
+  const margin = Math.max(0, Math.floor(options.margin ?? defaultMatrixCodeMargin(format)))
+  const { modules, rowHeight } = symbol
+  const columns = modules[0]?.length ?? 0
+  const viewWidth = columns + margin * 2
+  const viewHeight = modules.length * rowHeight + margin * 2
+  const foreground = options.foreground || '#000000'
+  const background = options.background || '#ffffff'
+
+  // 同一行相邻深色模块合并为一段路径，减小体积并避免缝隙
+  let path = ''
+  modules.forEach((row, y) => {
+    const top = y * rowHeight + margin
+    let x = 0
+    while (x < columns) {
+      if (!row[x]) {
+        x++
+        continue
+      }
+      const start = x
+      while (x < columns && row[x]) x++
+      path += `M${start + margin} ${top}h${x - start}v${rowHeight}h${start - x}z`
+    }
+  })
+
+  const svg =
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width.toFixed(2)}" height="${height.toFixed(2)}" viewBox="0 0 ${viewWidth} ${viewHeight}" shape-rendering="crispEdges">` +
+    `<rect width="${viewWidth}" height="${viewHeight}" fill="${escapeXml(background)}"/>` +
+    `<path d="${path}" fill="${escapeXml(foreground)}"/>` +
+    `</svg>`
+
+  return { svg, error: null }
+}
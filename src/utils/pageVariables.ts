@@ -0,0 +1,71 @@
+import { formatDate } from '@/utils/format'
+
+/**
+ * 页面变量：页眉、页脚与文本组件中的 {page}、{pages} 等占位符按所在页面替换；
+ * 单大括号与 {{ }} 数据表达式区分，表达式中的内容不会被替换
+ */
+
+export interface PageVariables {
+  page: number // 本份单据内的页码，从 1 开始
+  pages: number // 本份单据的总页数
+  batchIndex: number // 批量打印时的第几份单据，从 1 开始
+  batchTotal: number // 批量打印的单据总数
+  printDate: string
+  printTime: string
+  templateName: string
+}
+
+export const PAGE_VARIABLE_OPTIONS: { label: string; value: keyof PageVariables }[] = [
+  { label: '页码', value: 'page' },
+  { label: '总页数', value: 'pages' },
+  { label: '第几份', value: 'batchIndex' },
+  { label: '总份数', value: 'batchTotal' },
+  { label: '打印日期', value: 'printDate' },
+  { label: '打印时间', value: 'printTime' },
+  { label: '模板名称', value: 'templateName' }
+]
+
+const PAGE_VARIABLE_PATTERN = new RegExp(
+  `(?<!\\{)\\{(${PAGE_VARIABLE_OPTIONS.map(option => option.value).join('|')})\\}(?!\\})`,
+  'g'
+)
+
+/**
+ * 替换文本中的页面变量；没有页面信息时原样返回
+ */
+export function resolvePageVariables(text: string, variables?: PageVariables): string {
+  if (!variables || !text) return text
+  return text.replace(PAGE_VARIABLE_PATTERN, (_, name: keyof PageVariables) =>
+    String(variables[name])
+  )
+}
+
+/**
+ * 各页的页面变量：页码与总页数按单据分别计算，批量打印时每份单据从第 1 页开始
+ * @param records 每页所属单据的序号（从 0 开始）
+ */
+export function createPageVariables(
+  records: number[],
+  batchTotal: number,
+  templateName: string,
+  printedAt: Date
+): PageVariables[] {
+  const pageCounts = new Map<number, number>()
+  records.forEach(record => pageCounts.set(record, (pageCounts.get(record) ?? 0) + 1))
+  const printDate = formatDate(printedAt, 'yyyy-MM-dd')
+  const printTime = formatDate(printedAt, 'HH:mm')
+  const pageNumbers = new Map<number, number>()
+  return records.map(record => {
+    const page = (pageNumbers.get(record) ?? 0) + 1
+    pageNumbers.set(record, page)
+    return {
+      page,
+      pages: pageCounts.get(record) ?? 1,
+      batchIndex: record + 1,
+      batchTotal,
+      printDate,
+      printTime,
+      templateName
+    }
+  })
+}
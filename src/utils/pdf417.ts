@@ -0,0 +1,296 @@
+/**
+ * PDF417 编码结果
+ * modules 每一项为一行（不含行高重复与静区），rowHeight 为行高与模块宽度之比
+ */
+export interface PDF417Symbol {
+  rows: number
+  columns: number // 数据列数（不含起止符与行指示符）
+  errorCorrectionLevel: number
+  rowHeight: number
+  modules: boolean[][]
+}
+
+export interface PDF417Options {
+  aspectRatio?: number // 期望的宽高比，用于选择数据列数
+}
+
+const START_PATTERN = '11111111010101000'
+const STOP_PATTERN = '111111101000101001'
+const ROW_HEIGHT = 3
+const MIN_ROWS = 3
+const MAX_ROWS = 90
+const MAX_COLUMNS = 30
+const MAX_CODEWORDS = 928
+
+const LATCH_BYTE = 901
+const LATCH_BYTE_6 = 924
+const LATCH_NUMERIC = 902
+const ECI_CHARSET = 927
+const ECI_UTF8 = 26
+const PAD = 900
+
+// 三个簇（0/3/6）的码字图案，每 3 位 32 进制字符表示一个 17 模块图案的中间 15 位
+// （首位恒为条、末位恒为空）
+// prettier-ignore
+const CLUSTER_PATTERNS: string[] = [
+  'qn0tbouluqjgt9sukvl30qhol1ga10l0oa0gln0qrotduljgqpstcvb30lhob1gbn0lroqtubjglpsqsvbholoubroltubps' +
+  'lsvbtuuntqbgt5suivkj0q9ot4ukhgq8s910kgoq8e90gkgc908krgqdst6v9j0kpoqcu9hgkosqcf9gokoe9rgktsqev9po' +
+  'ksu9osksf9tskuv9su9sfkb0q5ot2uk9gq4st2f8h0k8oq4e8ggk8c8g88g48r0kdoq6u8pgkcsq6f8ookce8oc8o68tokeu' +
+  '8sskef8se8uuk5gq2st1f890k4oq2e88gk4cq27888k46884k438dgk6sq3f8cok6e8cck678c68c3k7f8e7850k2oq1e84g' +
+  'k2cq17848k26844k2384286o86c86682gq0nk16k13821pbgslsuavij0p9oskuihgp8sskf510igo50girgpdssmv5j0ipo' +
+  'pcu5hgios5go5gc5rgitspev5poisu5os5oe5tsiuv5su5uvrb0tlouqur9gtksuqfmh0r8otkemggr8ctk7mg8r86ib0p5o' +
+  'siumr0i9gp4ssifmpgrcstmfdh04ggi8cp47dggmocdg84r0idop6udr04pgicsp6fdpgmssrefdoo4ocdoc4toieudto4ss' +
+  'iefdssmufdse4uuduu4ufdufr5gtisupfm90r4otiem8gr4cti7m88r46m84m82i5gp2sshfmdgi4op2ecp048gr6ep27cog' +
+  '488i46co8mc6i434824dgi6sp3fctg4coi6ecsomeei67csc4c64c34esi7fcus4eecue4e7cu7cvfm50r2othem4gr2cth7' +
+  'm48r26m44r23m42m41450i2op1ecd044gi2cp17ccgm6cr37cc8444i23cc4m63cc246oi3eceo46ci37cecm77ce6463ce3' +
+  'cfecf7m2gr1ctgnm28r16m24r13m22m2142gi1cp0nc6g428i16c68m36i13c64422c6242143cc7cc76c73r0mr0jm11i0m' +
+  '414c34c32c31hb0olosauh9goks2h0h8ooke2ggh8c2g82g42r0hdoomu2pghcsomf2oohce2oc2o62toheu2sshef2se2uu' +
+  '2ufplgsqsudfj90pkosqej8gpkcsq7j88pk6j84pk3h5goiss9fjdgh4ooie6p028gpmeoi76ogjcch466o82846o42dgh6s' +
+  'ojf6tg2copnf6sojeeh676sc2c66s62esh7f6us2ee6ue2e72ff6vfrl0tqouterkgtqcut7rk8tq6rk4tq3rk2j50piospe' +
+  'nd0j4gtresp7ncgrmctr7nc8j44pi3nc4rm3j41250h2oohe6d024gh2coh7et06cgj6cpj7esgnecrn7h23es86c4j63es4' +
+  '24126oh3e6eo26ch37euo6ecj77eucnf72636e327e6fe277eve6f7rigtpcusnri8tp6ri4tp3ri2ri1j2gphcsonn6gj28' +
+  'tpnn68rj6ph3n64j22n62j21n6122gh1cogn66g228h16eeg668j36h13ee8n76222ee466222166123ch1n67c236efc676' +
+  '233ef667323nefnrh8tomrh4tojrh2rh1j18pgmn38j14pgjn34rhjn32j11n31218h0m638214h0je78634j1je74n3j211' +
+  'e72631e7163me7me7jtobrghpgbj0ij0h20k61ke3k20h61hglg190gko18ggkcoa7188gk6184gk31dggmsobf1cogme1cc' +
+  'gm71c61c31esgnf1ee1e71ffhl0oqosdehkgoqchk8oq6hk4oq3hk2150gioo9e3d014goreo973cghmcor73c8144gi33c4' +
+  'hm314116ogje3eo16cgj73echn73e616317e3fe1773f7pqgstcuenpq8st6pq4st3pq2pq1higopcjmghi8op6jm8pr6op3' +
+  'jm4hi2jm2hi1jm112gghc36g128opn7eg368hj6gh37e8jn61227e436212136113cghn37c1367fc3761337f637313n37n' +
+  '7fntt8uumtt4uujtt2tt1pp8ssmrr8ttmssjrr4ttjrr2pp1rr1hh8oomjj8hh4oojnn8jj4ppjnn4rrjhh1nn2jj1nn1118' +
+  'ggm338114ggj778334hhjff8774jjj111ff4nnj331ff211m33m11j77m33jffm77jffjtskuubtsitshpokssbrpktsrrpi' +
+  'pohrphhgkoobjhkhginjkjhihghnjijhhnjh10kggb31khgr73k31i10hf7k73i31hf7i73hf7h31rf7rts9roqropjgqnhq' +
+  'nhp30q71qf3qf3p0l00kggac0k80k40k20mo0mc0m60m30ne0n7gqggq8od6gq4od3gq2gq10igg9c1mggrcg961m8gr61m4' +
+  'gr31m20i11m10jcg9n1ncgrn1n60j31n30jn1nnot8ot4ot2ot1gp8hr8otmocjhr4otjhr2gp1hr10h81j80h4g8j3n81j4' +
+  '0h23n41j20h13n21j10hm1jm0hj3nm1jj3njsuksuisuhoskptksurptioshpthgokocbhpkosrjrkhpigohjrihphjrh0gk' +
+  'g8b1hkgor3jk1hi0gh7nk3ji1hh7ni3jh0gr1hr3jr7nruvauv9suatuqsu9tuposapsqos9rtqpsprtpgoahoqgo9jpqhop' +
+  'nrq',
+  'ulgvast90ukovaet8gukcva7t88uk6t84uk3t82tdgumsvbfqp0tcoumeqogtccum7qo8tc6qo4tc3qo2qtgtesunflp0qso' +
+  'teelogqscte7lo8qs6lo4qs3lo2ltgqustffbp0lsoqueboglscqu7bo8ls6bo4ls3btglusqvfbsoluebsclu7bs6buslvf' +
+  'buebu7t50uiov9et4guicv97t48ui6t44ui3t42t41qd0t6oujeqcgt6cuj7qc8t66qc4t63qc2qc1kt0qeot7eksgqect77' +
+  'ks8qe6ks4qe3ks2ks19t0kuoqfe9sgkucqf79s8ku69s4ku39s29uokve9uckv79u69u39ve9v7t2guhcv8nt28uh6t24uh3' +
+  't22t21q6gt3cuhnq68t36q64t33q62q61kegq7ct3nke8q76ke4q73ke2ke18ugkfcq7n8u8kf68u4kf38u28u18vckfn8v6' +
+  '8v38vnt18ugmt14ugjt12t11q38t1mq34t1jq32q31k78q3mk74q3jk72k718f8k7m8f4k7j8f28f18fm8fjt0kugbt0it0h' +
+  'q1kt0rq1iq1hk3kq1rk3ik3h87kk3r87i87ht0at09q0qq0pk1qk1psl0uaov5eskguacv57sk8ua6sk4ua3sk2sk1pd0smo' +
+  'ubepcgsmcub7pc8sm6pc4sm3pc2pc1it0peosneisgpecsn7is8pe6is4pe3is2is15t0iuopfe5sgiucpf75s8iu65s4iu3' +
+  '5s25uoive5uciv75u65u35ve5v7uqgvdcdfouq8vd6d7suq4vd3d3uuq2uq1sigu9cv4ntmgsi8vdntm8ur6u93tm4si2tm2' +
+  'si1tm1p6gsjcu9nregp68sj6re8tn6sj3re4p62re2p61re1iegp7csjnmugie8p76mu8rf6p73mu4ie2mu2ie1mu14ugifc' +
+  'p7ndug4u8if6du8mv6if3du44u2du24u14vcifndvc4v6dv64v3dv34vnup8vcmcnsup4vcjcjuup2chvup1sh8u8mtj8sh4' +
+  'u8jtj4upjtj2sh1tj1p38shmr78p34shjr74tjjr72p31r71i78p3mmf8i74p3jmf4r7jmf2i71mf14f8i7mcv84f4i7jcv4' +
+  'mfjcv24f1cv14fmcvm4fjcvjuokvcbcbuuoic9vuohsgku8bthkuorthisghthhp1ksgrr3kp1ir3ip1hr3hi3kp1rm7kr3r' +
+  'm7ii3hm7h47ki3rcfk47icfi47hcfh47rcfruoac5vuo9sgatgqsg9tgpp0qr1qp0pr1pi1qm3qi1pm3p43qc7q43pc7puo5' +
+  'sg5tgdp0dr0ti0tm1tsagu5cv2nsa8u56sa4u53sa2sa1omgsbcu5nom8sb6om4sb3om2om1hegoncsbnhe8on6he4on3he2' +
+  'he12ughfconn2u8hf62u4hf32u22u12vchfn2v62v32vnud8v6m6nsud4v6j6juud26hvud1s98u4msr8s94u4jsr4udjsr2' +
+  's91sr1oj8s9mpn8oj4s9jpn4srjpn2oj1pn1h78ojmjf8h74ojjjf4pnjjf2h71jf12f8h7m6v82f4h7j6v4jfj6v22f16v1' +
+  '2fm6vm2fj6vjvekenonbuveiejsn9vvehehuegvuckv6b6buutkvereru69vutiuchepvuths8ku4bspks8itrkutrs8htri' +
+  'sphtrhohks8rpjkohirnkpjiohhrnipjhrnhh3kohrj7kh3infkj7ih3hnfij7hnfh27kh3r6fk27ievk6fi27hevi6fhevh' +
+  '27r6frveaebsn5vve9e9ue8vuca65vusquc9edvusps8asoqs89tpqsoptppogqphqogprjqphprjph1qj3qh1pn7qj3pn7p' +
+  '23q67q23pefq67pefpve5e5ue4vuc5usds85sodtotogdpgtrhth0tj1tn3t21t63te7te2vs58u2ms54u2js52s51ob8s5m' +
+  'ob4s5job2ob1gn8obmgn4objgn2gn11f8gnm1f4gnj1f21f11fm1fju6kv3b3buu6i39vu6hs4ku2bsdks4isdis4hsdho9k' +
+  's4rorko9iorio9horhgjko9rhnkgjihnigjhhnh17kgjr3fk17i3fi17h3fh17r3frv7a7bsjlvv7979u78vu6a35vuequ69' +
+  '7dvueps4ascqs49stqscpstpo8qopqo8pprqoppprpghqhjqghpjnqhjpjnp13q37q13p7fq37p7fpfbonluf9snkvf8uf8f' +
+  'v7575uvfdfdu74vfcvu65ueduuts45scdsstttto8dootpptrrtggthhtjjtnnt11t33t77tf5snivf4uf4f72vf6vf2uf2f' +
+  'f1fs2ks2is2ho5ks2ro5io5hgbko5rgbigbh0nkgbr0ni0nh0nru3a1lvu39s2as6qs29s6po4qodqo4podpg9qgrqg9pgrp' +
+  '0jq1nq0jp1npv3l3lu3kvu35u7ds25s6dseto4doctottg8tgpthrt0ht1jt3nt7lsjqv7ku7kf3iv7mvflonqufksnqffke' +
+  'fk77iufmu7iffmffisnpffiefi77hffjffhefh7fgno2qo2pg5qg5p0bq0bps3do2do6tg4tgdt09t0rt1qv3qu3qf7qsjtf' +
+  '7qe7q73pf7rffqontefqcnt7fq6fq37pefre7p7fr7fpcnsnfp6fp37onfpnfomfoj1tf3te3t77tcjun7t67t33sn7tn7sm' +
+  '7sj',
+  'lfgqnsaf0l7oqjua7gl3sqhva3ol1ua1svb8bfglnsvb4b7oljuvb2b3slhvvb1b1uun8vbmbnsun4vbjbjuun2bhvun1tf8' +
+  'unmtf4unjtf2tf1qv8tfmqv4tfjqv2qv1lv8qvmlv4qvjlv29f0knoqbu97gkjsq9v93okhu91skgv90uv9k9nokruv9i9js' +
+  'kpvv9h9hu9gvujkv9r9ruuji9pvujht7kujrt7it7hqfkt7rqfiqfhkvkqfrkvikvh8ngkbsq5v8jok9u8hsk8v8gu8gfv8q' +
+  '8rskdvv8p8pu8ovuhq8tvuhpt3qt3pq7qq7pkfqkfp8bok5u89sk4v88u88fv8d8du8cvugtt1tq3t85sk2v84u84f86v82u' +
+  '82f5f0inopbu57gijsp9v53oihu51sigv50uv5k5noiruv5i5jsipvv5h5hu5gvubkv5r5ruubi5pvubhsnkubrsnisnhpfk' +
+  'snrpfipfhivkpfriviivhmngrbstlvd70mjor9ud3gmhsr8vd1omgud0smgfd0e4ngibsp5vdng4joi9udjompui8vdhs4gu' +
+  'dgu4gfdgfv4q4rsidvvdqv4pdrs4puvdpdpu4ovdovu9q4tvurqu9pdtvurpsjqtnqsjptnpp7qrfqp7prfpifqifpcn0mbo' +
+  'r5ucjgm9sr4vchom8ucgsm8fcgecg74boi5ucro49si4vcpsmcvcou48fcofv4d4duvctctu4cvcsvu8tuptshttjtp3tr7t' +
+  'i7tcbgm5sr2vc9om4uc8sm4fc8ec8745si2vcds44uccu44fccf46vcevc5om2uc4sm2fc4ec4742uc6u42fc6fc2sm1fc2e' +
+  'c2741fc3fc1ec172nghbsolv2joh9u2hsh8v2gu2gfv2q2rshdvv2p2pu2ovu5q2tvu5psbqsbponqonphfqhfp6n0jboplu' +
+  '6jgj9spkv6hoj8u6gsj8f6ge6g72boh5u6ro29sh4v6psjcv6ou28f6ofv2d2duv6t6tu2cv6svu4tudts9tsrtojtpnth7t' +
+  'nbgrlstqvej0n9orkuehgn8srkfegon8eegcn87eg66bgj5spiverg69oj4ueponcuj4feos68eeoe687eo725sh2v6ds24u' +
+  'ets6cu24fesu6cfesf26v6eveuveb0n5oriue9gn4srife8on4ee8cn47e86e8365oj2uedo64sj2fecsn6fece647ec722u' +
+  '66u22feeu66feefe5gn2srhfe4on2ee4cn27e46e4362sj1fe6s62ee6e627e6721f63fe7fe2on1ee2cn17e26e2361ee3e' +
+  '617e37e1cn0ne16e1360ne1ne0me0j1boglu19sgkv18u18f1du1cvu2ts5tobtgnt3bghlsoqv39ohku38shkf38e38715s' +
+  'giv3ds14u3cu14f3cf16v3ev7b0jlopqu79gjkspqf78ojke78cjk778678335ohiu7do34shif7cs34e7ce3477c712u36u' +
+  '12f7eu36f7efnlgrqsttff90nkorqef8gnkcrq7f88nk6f84nk3f8275gjisppffdg74ojiefconmeji7fcc746fc6743fc3' +
+  '32shhf76s32efes76e327fee767fe711f33f77fffff50niorpef4gnicrp7f48ni6f44ni3f42f4172ojhef6o72cjh7f6c' +
+  'nj7f66723f6331e73e317f7e737f77f2gnhcronf28nh6f24nh3f22f2171cjgnf3c716f36713f3330n71nf3nf18ngmf14' +
+  'ngjf12f1170mf1m70jf1jf0kngbf0if0h70bf0r0lsgav0ku0kf0mv1logqu1ksgqf1ke1k70iu1mu0if1mf3lghqsotf3ko' +
+  'hqe3kchq73k63k31isgpf3ms1ie3me1i73m70hf1jf3nf7l0jqopte7kgjqcpt77k8jq67k4jq37k27k13iohpe7mo3ichp7' +
+  '7mcjr77m63i37m31he3je1h77ne3j77n7nqgrtctunnq8rt6nq4rt3nq2nq17igjpcpsnfmg7i8jp6fm8nr6jp3fm47i2fm2' +
+  '7i1fm13hchon7jc3h6fnc7j63h3fn67j3fn31gn3hn7jnfnnnp8rsmnp4rsjnp2np17h8jomfj87h4jojfj4npjfj27h1fj1' +
+  '3gm7hm3gjfjm7hjfjjnokrsbnoinoh7gkjobfhk7gifhi7ghfhh3gb7grfhrnoano97gafgq7g9fgp0au0af0qsgdf0qe0q7' +
+  '09f0rf1qogte1qcgt71q61q30pe1re0p71r73qghtcoun3q8ht63q4ht33q23q11pcgsn3rchtn3r61p33r30on1pn3rnjt8' +
+  'pumjt4pujjt2jt13p8hsm7r8jtmhsj7r43p27r23p17r11om3pm1oj7rm3pj7rjruktvbruiruhjskpubntkjsintijshnth' +
+  '3okhsb7pk3oifrk7pi3ohfri7phfrh1ob3or7prfrrruaru9jsansqjs9nsp3oa7oq3o9fpq7opfppru5js5nsd3o57odfot' +
+  '0de0d70tcgen0t60t30cn0tn1t8gum1t4guj1t21t10sm1tm0sj1tjhukovbhuihuh1skgub3tkhur3ti1sh3th0sb1sr3tr' +
+  'pvapv9huajuqhu9jup1sa3sq1s97tq3sp7tppv5hu5jud1s53sd7st0em0ej0ukgfb0ui0uh0eb0urgvagv90ua1uq0u91up' +
+  'ovl'
+]
+
+let clusterTables: number[][] | null = null
+
+function getClusterTables(): number[][] {
+  if (!clusterTables) {
+    clusterTables = CLUSTER_PATTERNS.map(table => {
+      const patterns: number[] = []
+      for (let i = 0; i < table.length; i += 3) {
+        patterns.push(0x10000 | (parseInt(table.slice(i, i + 3), 32) << 1))
+      }
+      return patterns
+    })
+  }
+  return clusterTables
+}
+
+// ---------------- 数据压缩 ----------------
+
+// 数字压缩：每 44 位数字前置 1 后转为 900 进制
+function compactNumeric(digits: string): number[] {
+  const codewords: number[] = [LATCH_NUMERIC]
+  for (let i = 0; i < digits.length; i += 44) {
+    let value = BigInt('1' + digits.slice(i, i + 44))
+    const group: number[] = []
+    while (value > 0n) {
+      group.unshift(Number(value % 900n))
+      value /= 900n
+    }
+    codewords.push(...group)
+  }
+  return codewords
+}
+
+// 字节压缩：每 6 字节转为 5 个 900 进制码字，余下字节逐个编码
+function compactBytes(bytes: number[]): number[] {
+  const codewords: number[] = [bytes.length % 6 === 0 ? LATCH_BYTE_6 : LATCH_BYTE]
+  let i = 0
+  for (; i + 6 <= bytes.length; i += 6) {
+    let value = 0n
+    for (let k = 0; k < 6; k++) value = value * 256n + BigInt(bytes[i + k])
+    const group: number[] = []
+    for (let k = 0; k < 5; k++) {
+      group.unshift(Number(value % 900n))
+      value /= 900n
+    }
+    codewords.push(...group)
+  }
+  for (; i < bytes.length; i++) codewords.push(bytes[i])
+  return codewords
+}
+
+// ---------------- 纠错（GF(929)） ----------------
+
+function errorCorrectionCodewords(data: number[], level: number): number[] {
+  const count = 1 << (level + 1)
+  // 生成多项式 ∏(x - 3^i)，系数低次在前
+  let generator = [1]
+  let root = 1
+  for (let i = 1; i <= count; i++) {
+    root = (root * 3) % 929
+    const next = new Array(generator.length + 1).fill(0)
+    generator.forEach((coef, j) => {
+      next[j + 1] = (next[j + 1] + coef) % 929
+      next[j] = (next[j] + 929 - ((coef * root) % 929)) % 929
+    })
+    generator = next
+  }
+
+  const ecc = new Array(count).fill(0)
+  for (const codeword of data) {
+    const t1 = (codeword + ecc[count - 1]) % 929
+    for (let j = count - 1; j >= 1; j--) {
+      ecc[j] = (ecc[j - 1] + 929 - ((t1 * generator[j]) % 929)) % 929
+    }
+    ecc[0] = (929 - ((t1 * generator[0]) % 929)) % 929
+  }
+  return ecc.map(value => (value === 0 ? 0 : 929 - value)).reverse()
+}
+
+// 按数据量选择推荐纠错等级
+function recommendedLevel(dataCount: number): number {
+  if (dataCount <= 40) return 2
+  if (dataCount <= 160) return 3
+  if (dataCount <= 320) return 4
+  return 5
+}
+
+function pushPattern(row: boolean[], pattern: number, length = 17) {
+  for (let i = length - 1; i >= 0; i--) row.push(((pattern >>> i) & 1) === 1)
+}
+
+function pushBits(row: boolean[], bits: string) {
+  for (const bit of bits) row.push(bit === '1')
+}
+
+/**
+ * 将文本编码为 PDF417
+ * 纯数字使用数字压缩，其余使用字节压缩（含非 ASCII 字符时声明 UTF-8 ECI）
+ */
+export function encodePDF417(text: string, options: PDF417Options = {}): PDF417Symbol {
+  if (text === '') {
+    throw new Error('PDF417 内容不能为空')
+  }
+
+  let payload: number[]
+  if (/^\d+$/.test(text)) {
+    payload = compactNumeric(text)
+  } else {
+    const bytes = Array.from(new TextEncoder().encode(text))
+    payload = compactBytes(bytes)
+    if (bytes.some(byte => byte > 127)) payload = [ECI_CHARSET, ECI_UTF8, ...payload]
+  }
+
+  // 首个码字为符号长度描述符
+  const dataCount = payload.length + 1
+  const level = recommendedLevel(dataCount)
+  const eccCount = 1 << (level + 1)
+  if (dataCount + eccCount > MAX_CODEWORDS) {
+    throw new Error('PDF417 内容过长，最多约 1000 个字节或 2500 位数字')
+  }
+
+  // 选择最接近目标宽高比的列数
+  const targetRatio = options.aspectRatio && options.aspectRatio > 0 ? options.aspectRatio : 3
+  let best: { columns: number; rows: number; score: number } | null = null
+  for (let columns = 1; columns <= MAX_COLUMNS; columns++) {
+    const rows = Math.max(MIN_ROWS, Math.ceil((dataCount + eccCount) / columns))
+    if (rows > MAX_ROWS || rows * columns > MAX_CODEWORDS) continue
+    const width = 17 * (columns + 4) + 1
+    const height = rows * ROW_HEIGHT
+    const score = Math.abs(Math.log(width / height / targetRatio))
+    if (!best || score < best.score) best = { columns, rows, score }
+  }
+  if (!best) {
+    throw new Error('PDF417 内容过长，无法排布')
+  }
+  const { columns, rows } = best
+
+  const padCount = rows * columns - dataCount - eccCount
+  const data = [dataCount + padCount, ...payload, ...new Array(padCount).fill(PAD)]
+  const codewords = data.concat(errorCorrectionCodewords(data, level))
+
+  const tables = getClusterTables()
+  const modules: boolean[][] = []
+  for (let r = 0; r < rows; r++) {
+    const cluster = r % 3
+    const base = 30 * Math.floor(r / 3)
+    const rowInfo = base + Math.floor((rows - 1) / 3)
+    const levelInfo = base + level * 3 + ((rows - 1) % 3)
+    const columnInfo = base + columns - 1
+    // 左右行指示符按簇轮换记录行数、纠错等级与列数
+    const [left, right] =
+      cluster === 0
+        ? [rowInfo, columnInfo]
+        : cluster === 1
+          ? [levelInfo, rowInfo]
+          : [columnInfo, levelInfo]
+
+    const row: boolean[] = []
+    pushBits(row, START_PATTERN)
+    pushPattern(row, tables[cluster][left])
+    for (let c = 0; c < columns; c++) {
+      pushPattern(row, tables[cluster][codewords[r * columns + c]])
+    }
+    pushPattern(row, tables[cluster][right])
+    pushBits(row, STOP_PATTERN)
+    modules.push(row)
+  }
+
+  return { rows, columns, errorCorrectionLevel: level, rowHeight: ROW_HEIGHT, modules }
+}
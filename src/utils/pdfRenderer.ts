@@ -0,0 +1,1141 @@
+import { GState } from 'jspdf'
+import type { jsPDF } from 'jspdf'
+import type {
+  BarcodeWidget,
+  BorderStyle,
+  ImageWidget,
+  LineWidget,
+  PaperSize,
+  QRCodeWidget,
+  RectWidget,
+  TableCell,
+  TableWidget,
+  TextWidget,
+  ValueFormat,
+  Widget
+} from '@/types'
+import { MM_TO_PX } from '@/types'
+import { encodeBarcode, layoutBarcode } from '@/utils/barcode'
+import type { BarcodeEncoding } from '@/utils/barcode'
+import { renderTemplate } from '@/utils/expression'
+import {
+  DEFAULT_FONT_FAMILY,
+  addFontUsage,
+  createFontSubsets,
+  findFontFamily,
+  getFontId,
+  resolveFontFamily
+} from '@/utils/fonts'
+import type { FontUsage, RegisteredFontFamily } from '@/utils/fonts'
+import { getTableCellFormat } from '@/utils/format'
+import { defaultMatrixCodeMargin, encodeMatrixCode } from '@/utils/matrixCode'
+import type { MatrixCodeSymbol } from '@/utils/matrixCode'
+import { resolvePageVariables } from '@/utils/pageVariables'
+import type { PageVariables } from '@/utils/pageVariables'
+import {
+  getFooterCellText,
+  getFooterRowCount,
+  getFooterScope,
+  getTableDataRowCount
+} from '@/utils/tableFooter'
+
+/**
+ * 矢量 PDF 渲染：直接遍历模板组件，用 jsPDF 绘图指令输出文字、线条、表格、图片和条码
+ * 坐标单位统一为毫米，样式中的 px 按 MM_TO_PX 换算，与预览页保持一致
+ */
+
+/**
+ * 分页后的单个组件，结构与预览页 pagedWidgets 的元素一致
+ */
+export interface PdfPageItem {
+  widget: Widget
+  dataRowIndex?: number
+  dataRangeStart?: number
+  dataRangeCount?: number
+  topInPage: number // mm
+  tableStartRow?: number
+  tableEndRow?: number
+  dataRows?: number[] // 分组打印时表格读取的数据行（原始行号）
+}
+
+/**
+ * 渲染所需的数据读取接口（datasource store 满足该接口）
+ */
+export interface PdfDataReader {
+  getColumnData(columnName: string): (string | number)[]
+  formatColumnValue(columnName: string, value: string | number, format?: ValueFormat): string
+}
+
+/**
+ * 按组件绑定的数据源返回读取接口
+ */
+export type PdfReaderResolver = (widget: Widget) => PdfDataReader | undefined
+
+/**
+ * 组件读取的数据：分组打印的表格只读取本组数据行，与预览页 TableWidget 的 dataRows 一致
+ */
+function getItemReader(
+  item: PdfPageItem,
+  getReader?: PdfReaderResolver
+): PdfDataReader | undefined {
+  const reader = getReader?.(item.widget)
+  const { dataRows } = item
+  if (!reader || !dataRows) return reader
+  return {
+    getColumnData: columnName => {
+      const data = reader.getColumnData(columnName)
+      return dataRows.map(row => data[row] ?? '')
+    },
+    formatColumnValue: reader.formatColumnValue
+  }
+}
+
+// 页眉页脚区域高度与预览页 .page-header 一致（px）
+const HEADER_FOOTER_BOX_PX = 30
+const LINE_HEIGHT = 1.2
+// 文字基线相对行中心的下移量（em），使中文字形在行内垂直居中
+const BASELINE_SHIFT = 0.35
+
+interface RGBA {
+  r: number
+  g: number
+  b: number
+  a: number
+}
+
+interface Box {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+interface TextStyle {
+  fontFamily?: string
+  fontSize: number // px
+  fontWeight?: string
+  color?: string
+  letterSpacing?: number // px
+  textAlign?: 'left' | 'center' | 'right'
+  verticalAlign?: 'top' | 'middle' | 'bottom'
+}
+
+function px(value: number): number {
+  return value / MM_TO_PX
+}
+
+// ==================== 字体 ====================
+
+/**
+ * 选择绘制字体：已注册字体使用内嵌子集；未注册字体（如默认的 Arial）的纯西文内容
+ * 使用 PDF 内置的 Helvetica（字宽与 Arial 一致，返回 null），其余回退到默认中文字体
+ */
+function pickPdfFont(family: string | undefined, text: string): RegisteredFontFamily | null {
+  const registered = findFontFamily(family)
+  if (registered) return registered
+  if (/^[\x20-\x7e]*$/.test(text)) return null
+  return resolveFontFamily(family)
+}
+
+function setPdfFont(pdf: jsPDF, family: RegisteredFontFamily | null, bold: boolean) {
+  pdf.setFont(family ? getFontId(family) : 'helvetica', bold ? 'bold' : 'normal')
+}
+
+function useText(usage: FontUsage, family: string | undefined, text: string) {
+  const font = pickPdfFont(family, text)
+  if (font) addFontUsage(usage, font, text)
+}
+
+/**
+ * 按用量子集化并注册字体，常规与粗体共用同一字形
+ */
+export async function registerPdfFonts(pdf: jsPDF, usage: FontUsage) {
+  const subsets = await createFontSubsets(usage)
+  subsets.forEach((data, family) => {
+    const id = getFontId(family)
+    const file = `${id}.ttf`
+    pdf.addFileToVFS(file, data)
+    pdf.addFont(file, id, 'normal')
+    pdf.addFont(file, id, 'bold')
+  })
+}
+
+// ==================== 颜色与线型 ====================
+
+const NAMED_COLORS: Record<string, string> = {
+  black: '#000000',
+  white: '#ffffff',
+  red: '#ff0000',
+  green: '#008000',
+  blue: '#0000ff',
+  gray: '#808080',
+  grey: '#808080'
+}
+
+/**
+ * 解析 CSS 颜色（#rgb/#rrggbb/#rrggbbaa、rgb()/rgba() 与少量颜色名），透明或无法识别时返回 null
+ */
+function parseColor(value?: string): RGBA | null {
+  if (!value) return null
+  const input = (NAMED_COLORS[value.trim().toLowerCase()] ?? value).trim()
+
+  const hex = input.match(/^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i)
+  if (hex) {
+    let digits = hex[1]
+    if (digits.length <= 4) {
+      digits = digits
+        .split('')
+        .map(char => char + char)
+        .join('')
+    }
+    const channel = (index: number) => parseInt(digits.slice(index * 2, index * 2 + 2), 16)
+    return {
+      r: channel(0),
+      g: channel(1),
+      b: channel(2),
+      a: digits.length === 8 ? channel(3) / 255 : 1
+    }
+  }
+
+  const rgb = input.match(/^rgba?\(([^)]+)\)$/i)
+  if (rgb) {
+    const parts = rgb[1].split(/[\s,/]+/).filter(Boolean)
+    if (parts.length < 3) return null
+    const [r, g, b] = parts.slice(0, 3).map(part => Math.round(Number.parseFloat(part)))
+    const alpha = parts[3]
+    const a =
+      alpha === undefined
+        ? 1
+        : alpha.endsWith('%')
+          ? Number.parseFloat(alpha) / 100
+          : Number.parseFloat(alpha)
+    if ([r, g, b, a].some(Number.isNaN)) return null
+    return { r, g, b, a }
+  }
+
+  return null
+}
+
+// 在指定不透明度下执行绘制
+function withOpacity(pdf: jsPDF, opacity: number, draw: () => void) {
+  if (opacity >= 1) {
+    draw()
+    return
+  }
+  pdf.saveGraphicsState()
+  pdf.setGState(new GState({ opacity, 'stroke-opacity': opacity }))
+  draw()
+  pdf.restoreGraphicsState()
+}
+
+function applyStroke(pdf: jsPDF, widthMm: number, style: string, color: RGBA) {
+  pdf.setDrawColor(color.r, color.g, color.b)
+  pdf.setLineWidth(widthMm)
+  if (style === 'dashed') {
+    pdf.setLineDashPattern([widthMm * 3, widthMm * 3], 0)
+  } else if (style === 'dotted') {
+    pdf.setLineDashPattern([widthMm, widthMm], 0)
+  } else {
+    pdf.setLineDashPattern([], 0)
+  }
+}
+
+function strokeLine(
+  pdf: jsPDF,
+  from: [number, number],
+  to: [number, number],
+  border: { width: number; color: string; style: string }
+) {
+  const color = parseColor(border.color)
+  if (!color || border.style === 'none' || border.width <= 0) return
+  withOpacity(pdf, color.a, () => {
+    applyStroke(pdf, px(border.width), border.style, color)
+    pdf.line(from[0], from[1], to[0], to[1])
+  })
+}
+
+function fillRect(pdf: jsPDF, box: Box, fill?: string) {
+  const color = parseColor(fill)
+  if (!color) return
+  withOpacity(pdf, color.a, () => {
+    pdf.setFillColor(color.r, color.g, color.b)
+    pdf.rect(box.x, box.y, box.width, box.height, 'F')
+  })
+}
+
+// 按 CSS border-box 规则在盒子内侧绘制四边边框
+function strokeBoxBorders(
+  pdf: jsPDF,
+  box: Box,
+  borders: Partial<Record<'top' | 'right' | 'bottom' | 'left', BorderStyle | undefined>>
+) {
+  const { x, y, width, height } = box
+  const half = (border?: BorderStyle) => (border ? px(border.width) / 2 : 0)
+  if (borders.top) {
+    const offset = y + half(borders.top)
+    strokeLine(pdf, [x, offset], [x + width, offset], borders.top)
+  }
+  if (borders.bottom) {
+    const offset = y + height - half(borders.bottom)
+    strokeLine(pdf, [x, offset], [x + width, offset], borders.bottom)
+  }
+  if (borders.left) {
+    const offset = x + half(borders.left)
+    strokeLine(pdf, [offset, y], [offset, y + height], borders.left)
+  }
+  if (borders.right) {
+    const offset = x + width - half(borders.right)
+    strokeLine(pdf, [offset, y], [offset, y + height], borders.right)
+  }
+}
+
+function visibleBorder(border?: BorderStyle): BorderStyle | undefined {
+  if (!border || border.style === 'none' || border.width <= 0) return undefined
+  return border
+}
+
+// ==================== 文字 ====================
+
+function clipTo(pdf: jsPDF, box: Box, draw: () => void) {
+  pdf.saveGraphicsState()
+  pdf.rect(box.x, box.y, box.width, box.height, null)
+  pdf.clip()
+  pdf.discardPath()
+  draw()
+  pdf.restoreGraphicsState()
+}
+
+function isBold(fontWeight?: string): boolean {
+  if (!fontWeight) return false
+  return fontWeight === 'bold' || fontWeight === 'bolder' || Number(fontWeight) >= 600
+}
+
+function measureText(pdf: jsPDF, text: string, charSpace: number): number {
+  return pdf.getTextWidth(text) + charSpace * text.length
+}
+
+/**
+ * 按宽度折行：中文逐字断行，西文优先在空格处断行（对应 CSS word-break: break-word）
+ */
+function wrapText(pdf: jsPDF, text: string, maxWidth: number, charSpace: number): string[] {
+  const lines: string[] = []
+  for (const paragraph of text.split(/\r?\n/)) {
+    let line = ''
+    for (const char of Array.from(paragraph)) {
+      const candidate = line + char
+      if (!line || measureText(pdf, candidate, charSpace) <= maxWidth) {
+        line = candidate
+        continue
+      }
+      const breakAt = char === ' ' ? -1 : line.lastIndexOf(' ')
+      if (breakAt > 0 && /[\x21-\x7e]/.test(char)) {
+        lines.push(line.slice(0, breakAt))
+        line = line.slice(breakAt + 1) + char
+      } else {
+        lines.push(line.trimEnd())
+        line = char === ' ' ? '' : char
+      }
+    }
+    lines.push(line)
+  }
+  return lines
+}
+
+function drawTextBlock(pdf: jsPDF, text: string, box: Box, style: TextStyle) {
+  if (!text || box.width <= 0 || box.height <= 0) return
+  const color = parseColor(style.color) ?? { r: 0, g: 0, b: 0, a: 1 }
+  const fontSize = px(style.fontSize)
+  const charSpace = px(style.letterSpacing ?? 0)
+  const lineHeight = fontSize * LINE_HEIGHT
+
+  setPdfFont(pdf, pickPdfFont(style.fontFamily, text), isBold(style.fontWeight))
+  pdf.setFontSize(style.fontSize * 0.75) // px → pt
+  const lines = wrapText(pdf, text, box.width, charSpace)
+  const blockHeight = lines.length * lineHeight
+
+  let top = box.y
+  if (style.verticalAlign === 'middle') top += (box.height - blockHeight) / 2
+  else if (style.verticalAlign === 'bottom') top += box.height - blockHeight
+
+  clipTo(pdf, box, () => {
+    withOpacity(pdf, color.a, () => {
+      pdf.setTextColor(color.r, color.g, color.b)
+      lines.forEach((line, index) => {
+        const width = measureText(pdf, line, charSpace)
+        let x = box.x
+        if (style.textAlign === 'center') x += (box.width - width) / 2
+        else if (style.textAlign === 'right') x += box.width - width
+        const y = top + index * lineHeight + lineHeight / 2 + fontSize * BASELINE_SHIFT
+        pdf.text(line, x, y, { charSpace })
+      })
+    })
+  })
+}
+
+// ==================== 组件 ====================
+
+function getColumnValue(
+  reader: PdfDataReader | undefined,
+  column: string,
+  rowIndex: number,
+  format?: ValueFormat
+) {
+  const value = reader?.getColumnData(column)[rowIndex]
+  if (!reader || value === undefined || value === null) return ''
+  return reader.formatColumnValue(column, value, format)
+}
+
+// 超出数据行数时取最后一行，与表格预览的取值规则一致
+function getClampedColumnValue(
+  reader: PdfDataReader | undefined,
+  column: string,
+  row: number,
+  format?: ValueFormat
+) {
+  const data = reader?.getColumnData(column) ?? []
+  if (!data.length) return ''
+  return getColumnValue(reader, column, Math.min(Math.max(row, 0), data.length - 1), format)
+}
+
+function resolveRowIndex(item: PdfPageItem, widgetRowIndex?: number | 'all'): number {
+  return item.dataRowIndex ?? (typeof widgetRowIndex === 'number' ? widgetRowIndex : 0)
+}
+
+// 标题与数据的组合规则与 TextWidget 预览一致
+function getTextContent(
+  widget: TextWidget,
+  item: PdfPageItem,
+  reader?: PdfDataReader,
+  variables?: PageVariables
+): string {
+  const data = widget.dataSource
+    ? getColumnValue(
+        reader,
+        widget.dataSource,
+        resolveRowIndex(item, widget.dataRowIndex),
+        widget.format
+      )
+    : renderTemplate(
+        resolvePageVariables(widget.content, variables),
+        column => reader?.getColumnData(column) ?? [],
+        resolveRowIndex(item, widget.dataRowIndex)
+      )
+  const showTitle = !!widget.title && widget.showTitle !== false
+  const showContent = widget.showContent !== false
+  const title = widget.title || ''
+  if (showTitle && showContent) return `${title}${data || ''}`
+  if (showTitle) return title
+  return showContent ? data || '' : ''
+}
+
+function renderText(
+  pdf: jsPDF,
+  widget: TextWidget,
+  box: Box,
+  item: PdfPageItem,
+  reader?: PdfDataReader,
+  variables?: PageVariables
+) {
+  const content = getTextContent(widget, item, reader, variables)
+
+  const borders = {
+    top: visibleBorder(widget.borderTop),
+    right: visibleBorder(widget.borderRight),
+    bottom: visibleBorder(widget.borderBottom),
+    left: visibleBorder(widget.borderLeft)
+  }
+  const inset = (border?: BorderStyle) => (border ? px(border.width) : 0)
+  const inner: Box = {
+    x: box.x + inset(borders.left),
+    y: box.y + inset(borders.top),
+    width: box.width - inset(borders.left) - inset(borders.right),
+    height: box.height - inset(borders.top) - inset(borders.bottom)
+  }
+
+  drawTextBlock(pdf, content, inner, {
+    fontFamily: widget.fontFamily,
+    fontSize: widget.fontSize,
+    fontWeight: widget.fontWeight,
+    color: widget.color,
+    letterSpacing: widget.letterSpacing,
+    textAlign: widget.textAlign || 'left',
+    verticalAlign: widget.verticalAlign || 'middle'
+  })
+  strokeBoxBorders(pdf, box, borders)
+}
+
+function renderLine(pdf: jsPDF, widget: LineWidget, box: Box) {
+  const border = { width: widget.lineWidth, color: widget.lineColor, style: widget.lineStyle }
+  if (widget.direction === 'horizontal') {
+    const y = box.y + box.height / 2
+    strokeLine(pdf, [box.x, y], [box.x + box.width, y], border)
+  } else {
+    const x = box.x + box.width / 2
+    strokeLine(pdf, [x, box.y], [x, box.y + box.height], border)
+  }
+}
+
+function renderRect(pdf: jsPDF, widget: RectWidget, box: Box) {
+  const borderWidth = px(widget.borderWidth)
+  const radius = Math.min(px(widget.borderRadius), box.width / 2, box.height / 2)
+  const fill = parseColor(widget.backgroundColor)
+  const stroke = widget.borderWidth > 0 ? parseColor(widget.borderColor) : null
+
+  if (fill) {
+    withOpacity(pdf, fill.a, () => {
+      pdf.setFillColor(fill.r, fill.g, fill.b)
+      if (radius > 0) pdf.roundedRect(box.x, box.y, box.width, box.height, radius, radius, 'F')
+      else pdf.rect(box.x, box.y, box.width, box.height, 'F')
+    })
+  }
+  if (stroke) {
+    // 边框位于盒子内侧，路径取边框中线
+    const x = box.x + borderWidth / 2
+    const y = box.y + borderWidth / 2
+    const width = box.width - borderWidth
+    const height = box.height - borderWidth
+    const innerRadius = Math.max(radius - borderWidth / 2, 0)
+    withOpacity(pdf, stroke.a, () => {
+      applyStroke(pdf, borderWidth, widget.borderStyle, stroke)
+      if (innerRadius > 0) pdf.roundedRect(x, y, width, height, innerRadius, innerRadius, 'S')
+      else pdf.rect(x, y, width, height, 'S')
+    })
+  }
+}
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image()
+    image.crossOrigin = 'anonymous'
+    image.onload = () => resolve(image)
+    image.onerror = () => reject(new Error('图片加载失败'))
+    image.src = src
+  })
+}
+
+async function renderImage(pdf: jsPDF, widget: ImageWidget, box: Box) {
+  if (!widget.src) return
+  let image: HTMLImageElement
+  try {
+    image = await loadImage(widget.src)
+  } catch (error) {
+    console.warn('PDF 导出跳过无法加载的图片:', error)
+    return
+  }
+
+  const naturalWidth = image.naturalWidth || 1
+  const naturalHeight = image.naturalHeight || 1
+  let width = box.width
+  let height = box.height
+  if (widget.fit === 'contain' || widget.fit === 'cover') {
+    const pick = widget.fit === 'contain' ? Math.min : Math.max
+    const scale = pick(box.width / naturalWidth, box.height / naturalHeight)
+    width = naturalWidth * scale
+    height = naturalHeight * scale
+  }
+  const x = box.x + (box.width - width) / 2
+  const y = box.y + (box.height - height) / 2
+
+  // PNG/JPEG 的 data URL 直接嵌入原始数据，其它格式交给 jsPDF 经 canvas 转为 PNG
+  const dataUrl = widget.src.match(/^data:image\/(png|jpe?g);base64,/i)
+  const format = dataUrl && dataUrl[1].toLowerCase() !== 'png' ? 'JPEG' : 'PNG'
+  clipTo(pdf, box, () => {
+    pdf.addImage(dataUrl ? widget.src : image, format, x, y, width, height, undefined, 'FAST')
+  })
+}
+
+function drawCodeError(pdf: jsPDF, box: Box, title: string, message: string) {
+  fillRect(pdf, box, '#fff1f0')
+  const border = { width: 1, color: '#ff4d4f', style: 'dashed' as const }
+  strokeBoxBorders(pdf, box, { top: border, right: border, bottom: border, left: border })
+  const style: TextStyle = {
+    fontFamily: DEFAULT_FONT_FAMILY,
+    fontSize: 10,
+    color: '#cf1322',
+    textAlign: 'center'
+  }
+  const half = box.height / 2
+  drawTextBlock(pdf, title, { ...box, height: half }, { ...style, verticalAlign: 'bottom' })
+  drawTextBlock(pdf, message, { ...box, y: box.y + half, height: half }, style)
+}
+
+function getCodeValue(
+  widget: BarcodeWidget | QRCodeWidget,
+  item: PdfPageItem,
+  reader?: PdfDataReader
+): string {
+  const dataValue = widget.dataSource
+    ? getColumnValue(reader, widget.dataSource, resolveRowIndex(item, widget.dataRowIndex))
+    : ''
+  return dataValue !== '' ? dataValue : widget.value
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error)
+}
+
+function encodeBarcodeWidget(
+  widget: BarcodeWidget,
+  item: PdfPageItem,
+  reader?: PdfDataReader
+): { encoding: BarcodeEncoding } | { error: [string, string] } {
+  try {
+    return { encoding: encodeBarcode(getCodeValue(widget, item, reader), widget.format) }
+  } catch (error) {
+    return { error: ['条码无效', errorMessage(error)] }
+  }
+}
+
+function encodeMatrixCodeWidget(
+  widget: QRCodeWidget,
+  box: Box,
+  item: PdfPageItem,
+  reader?: PdfDataReader
+): { symbol: MatrixCodeSymbol } | { error: [string, string] } {
+  try {
+    const symbol = encodeMatrixCode(getCodeValue(widget, item, reader), widget.format, {
+      errorCorrectionLevel: widget.errorCorrectionLevel,
+      aspectRatio: box.width / box.height
+    })
+    return { symbol }
+  } catch (error) {
+    const title =
+      widget.format === 'DATAMATRIX'
+        ? 'Data Matrix 无效'
+        : widget.format === 'PDF417'
+          ? 'PDF417 无效'
+          : '二维码无效'
+    return { error: [title, errorMessage(error)] }
+  }
+}
+
+function renderBarcode(
+  pdf: jsPDF,
+  widget: BarcodeWidget,
+  box: Box,
+  item: PdfPageItem,
+  reader?: PdfDataReader
+) {
+  const result = encodeBarcodeWidget(widget, item, reader)
+  if ('error' in result) {
+    drawCodeError(pdf, box, ...result.error)
+    return
+  }
+  const { encoding } = result
+
+  // 与 SVG 相同，按 px 排版后统一换算为毫米
+  const layout = layoutBarcode(encoding, {
+    width: box.width * MM_TO_PX,
+    height: box.height * MM_TO_PX,
+    showText: widget.showText
+  })
+  fillRect(pdf, box, '#ffffff')
+  pdf.setFillColor(0, 0, 0)
+  layout.bars.forEach(bar => {
+    pdf.rect(box.x + px(bar.x), box.y + px(bar.y), px(bar.width), px(bar.height), 'F')
+  })
+
+  pdf.setFont('courier', 'normal')
+  pdf.setTextColor(0, 0, 0)
+  layout.labels.forEach(label => {
+    pdf.setFontSize(label.fontSize * 0.75)
+    const align = label.anchor === 'start' ? 'left' : label.anchor === 'end' ? 'right' : 'center'
+    pdf.text(label.text, box.x + px(label.x), box.y + px(label.y), { align })
+  })
+}
+
+function renderMatrixCode(
+  pdf: jsPDF,
+  widget: QRCodeWidget,
+  box: Box,
+  item: PdfPageItem,
+  reader?: PdfDataReader
+) {
+  const result = encodeMatrixCodeWidget(widget, box, item, reader)
+  if ('error' in result) {
+    drawCodeError(pdf, box, ...result.error)
+    return
+  }
+  const { symbol } = result
+
+  // 等比缩放并居中，对应 SVG 默认的 preserveAspectRatio="xMidYMid meet"
+  const margin = Math.max(0, Math.floor(widget.margin ?? defaultMatrixCodeMargin(widget.format)))
+  const { modules, rowHeight } = symbol
+  const columns = modules[0]?.length ?? 0
+  const viewWidth = columns + margin * 2
+  const viewHeight = modules.length * rowHeight + margin * 2
+  const unit = Math.min(box.width / viewWidth, box.height / viewHeight)
+  const originX = box.x + (box.width - viewWidth * unit) / 2 + margin * unit
+  const originY = box.y + (box.height - viewHeight * unit) / 2 + margin * unit
+
+  fillRect(
+    pdf,
+    {
+      x: originX - margin * unit,
+      y: originY - margin * unit,
+      width: viewWidth * unit,
+      height: viewHeight * unit
+    },
+    widget.background || '#ffffff'
+  )
+
+  const foreground = parseColor(widget.foreground) ?? { r: 0, g: 0, b: 0, a: 1 }
+  withOpacity(pdf, foreground.a, () => {
+    pdf.setFillColor(foreground.r, foreground.g, foreground.b)
+    modules.forEach((row, y) => {
+      let x = 0
+      while (x < columns) {
+        if (!row[x]) {
+          x++
+          continue
+        }
+        const start = x
+        while (x < columns && row[x]) x++
+        pdf.rect(
+          originX + start * unit,
+          originY + y * rowHeight * unit,
+          (x - start) * unit,
+          rowHeight * unit,
+          'F'
+        )
+      }
+    })
+  })
+}
+
+// ==================== 表格 ====================
+
+interface PdfTableRow {
+  cells: TableCell[]
+  dataIndex: number | null // 表头行与表尾行为 null
+  sourceIndex: number // 对应原始模板行，用于读取行高
+  footerIndex?: number // 表尾行在表尾中的序号
+  aggregateRows?: number[] // 表尾行参与统计的数据行
+}
+
+/**
+ * 按预览规则展开表格行：复杂表格/列绑定表格按数据行数循环模板行，表头与表尾保持原样
+ */
+function buildTableRows(widget: TableWidget, reader?: PdfDataReader): PdfTableRow[] {
+  const headerCount = Math.max(0, Math.min(widget.headerRows ?? 0, widget.rows))
+  const footerCount = getFooterRowCount(widget)
+  const rows: PdfTableRow[] = widget.cells.slice(0, headerCount).map((cells, index) => ({
+    cells,
+    dataIndex: null,
+    sourceIndex: index
+  }))
+  const bodyTemplate = widget.cells.slice(headerCount, widget.rows - footerCount)
+  const bindings = Object.values(widget.columnBindings || {}).filter(Boolean)
+
+  let bodyCount = bodyTemplate.length
+  if (bindings.length > 0) {
+    const maxLength = Math.max(...bindings.map(key => reader?.getColumnData(key).length ?? 0))
+    bodyCount = Math.max(maxLength, bodyTemplate.length)
+  }
+  const templateRows = bodyTemplate.length > 0 ? bodyTemplate : [new Array(widget.cols).fill({})]
+  for (let i = 0; i < bodyCount; i++) {
+    const templateIndex = i % templateRows.length
+    rows.push({
+      cells: templateRows[templateIndex],
+      dataIndex: i,
+      // 循环生成的行超出模板行数时使用默认行高
+      sourceIndex: i < bodyTemplate.length ? headerCount + templateIndex : -1
+    })
+  }
+  widget.cells.slice(widget.rows - footerCount, widget.rows).forEach((cells, index) => {
+    rows.push({
+      cells,
+      dataIndex: null,
+      sourceIndex: widget.rows - footerCount + index,
+      footerIndex: index
+    })
+  })
+  return rows
+}
+
+function getCellText(
+  widget: TableWidget,
+  row: PdfTableRow,
+  col: number,
+  cell: TableCell,
+  item: PdfPageItem,
+  reader?: PdfDataReader
+): string {
+  if (row.footerIndex !== undefined) {
+    if (!reader) return cell.aggregate ? '' : renderCellTemplate(cell, 0, reader)
+    return getFooterCellText(widget, col, cell, row.aggregateRows ?? [], reader)
+  }
+  // 内容中的表达式按单元格所在的数据行求值，表头使用当前页的数据行
+  const rangeStart = item.dataRangeStart ?? item.dataRowIndex ?? 0
+  if (row.dataIndex === null) return renderCellTemplate(cell, rangeStart, reader)
+  const tableMode = widget.tableMode ?? 'legacy'
+  const columnBindings = widget.columnBindings || {}
+  const binding = cell.dataSource || (tableMode === 'simple' ? null : columnBindings[col])
+  const autoFill = tableMode === 'complex' || Object.keys(columnBindings).length > 0
+  const rowIndex =
+    tableMode === 'simple' ? rangeStart : autoFill ? row.dataIndex : (item.dataRowIndex ?? 0)
+  if (!binding) return renderCellTemplate(cell, rowIndex, reader)
+  const format = getTableCellFormat(widget, col, cell)
+
+  // 简单表格：整张表格使用同一条数据
+  if (tableMode === 'simple' && (item.dataRangeCount ?? 1) <= 0) return ''
+  return getClampedColumnValue(reader, binding, rowIndex, format)
+}
+
+function renderCellTemplate(cell: TableCell, rowIndex: number, reader?: PdfDataReader): string {
+  return renderTemplate(cell.content ?? '', column => reader?.getColumnData(column) ?? [], rowIndex)
+}
+
+// 重复的表头中跨到数据区的合并单元格截断在表头最后一行
+function clampHeaderRowSpans(headerRows: PdfTableRow[]): PdfTableRow[] {
+  return headerRows.map((row, r) => ({
+    ...row,
+    cells: row.cells.map(cell =>
+      (cell?.rowSpan ?? 1) > headerRows.length - r
+        ? { ...cell, rowSpan: headerRows.length - r }
+        : cell
+    )
+  }))
+}
+
+function isSplitTable(widget: TableWidget, item: PdfPageItem): boolean {
+  return (
+    widget.tableMode === 'complex' &&
+    item.tableStartRow !== undefined &&
+    item.tableEndRow !== undefined
+  )
+}
+
+/**
+ * 当前页实际绘制的表格行：跨页分割时第一部分与设置了每页重复表头的后续部分显示表头，
+ * 行号基于包含表头的完整表格；本页小计每页显示，合计只显示在最后一页
+ */
+function getPageTableRows(
+  widget: TableWidget,
+  item: PdfPageItem,
+  reader?: PdfDataReader
+): PdfTableRow[] {
+  if (widget.rows <= 0 || widget.cols <= 0) return []
+  const headerCount = Math.max(0, Math.min(widget.headerRows ?? 0, widget.rows))
+  const allRows = buildTableRows(widget, reader)
+  const footerRows = allRows.filter(row => row.footerIndex !== undefined)
+  const bodyRows = allRows.slice(0, allRows.length - footerRows.length)
+  const dataCount = reader ? getTableDataRowCount(widget, reader.getColumnData) : 0
+  const allDataRows = Array.from({ length: dataCount }, (_, i) => i)
+
+  let rows = bodyRows
+  let pageDataRows = allDataRows
+  let isLastPart = true
+  if (isSplitTable(widget, item)) {
+    const start = Math.max(item.tableStartRow!, headerCount)
+    const showHeader = item.tableStartRow! < headerCount || widget.repeatHeader !== false
+    rows = [
+      ...(showHeader ? clampHeaderRowSpans(bodyRows.slice(0, headerCount)) : []),
+      ...bodyRows.slice(start, item.tableEndRow! + 1)
+    ]
+    pageDataRows = allDataRows.slice(start - headerCount, item.tableEndRow! - headerCount + 1)
+    isLastPart = item.tableEndRow! >= bodyRows.length - 1
+  }
+  footerRows.forEach(row => {
+    const scope = getFooterScope(widget, row.footerIndex!)
+    if (scope === 'total' && !isLastPart) return
+    rows.push({ ...row, aggregateRows: scope === 'page' ? pageDataRows : allDataRows })
+  })
+  return widget.showHeader === false
+    ? rows.filter(row => row.dataIndex !== null || row.footerIndex !== undefined)
+    : rows
+}
+
+function renderTable(
+  pdf: jsPDF,
+  widget: TableWidget,
+  box: Box,
+  item: PdfPageItem,
+  reader?: PdfDataReader
+) {
+  const rows = getPageTableRows(widget, item, reader)
+  if (rows.length === 0) return
+  const isComplex = widget.tableMode === 'complex'
+  const isSplit = isSplitTable(widget, item)
+
+  // 复杂表格高度随渲染行数等比伸缩
+  const height = isComplex ? box.height * (rows.length / widget.rows) : box.height
+
+  const normalize = (values: number[] | undefined, count: number) => {
+    const list = values?.length === count ? values : new Array(count).fill(1 / count)
+    const total = list.reduce((sum, value) => sum + value, 0)
+    return total ? list.map(value => value / total) : new Array(count).fill(1 / count)
+  }
+  const columnWidths = normalize(widget.columnWidths, widget.cols).map(
+    fraction => fraction * box.width
+  )
+  const rowHeights = normalize(widget.rowHeights, widget.rows)
+  const rowFractions = isSplit
+    ? rows.map(() => 1 / rows.length)
+    : rows.map(row => rowHeights[row.sourceIndex] ?? 1 / widget.rows)
+  const fractionTotal = rowFractions.reduce((sum, value) => sum + value, 0) || 1
+  const rowSizes = rowFractions.map(fraction => (fraction / fractionTotal) * height)
+
+  const columnOffsets = columnWidths.map((_, index) =>
+    columnWidths.slice(0, index).reduce((sum, value) => sum + value, box.x)
+  )
+  const rowOffsets = rowSizes.map((_, index) =>
+    rowSizes.slice(0, index).reduce((sum, value) => sum + value, box.y)
+  )
+
+  const tableDefault: BorderStyle = {
+    width: widget.tableBorderWidth ?? widget.borderWidth ?? 1,
+    color: widget.tableBorderColor ?? widget.borderColor ?? '#000000',
+    style: widget.tableBorderStyle ?? widget.borderStyle ?? 'solid'
+  }
+  const cellDefault: BorderStyle = {
+    width: widget.cellBorderWidth ?? widget.borderWidth ?? 1,
+    color: widget.cellBorderColor ?? widget.borderColor ?? '#000000',
+    style: widget.cellBorderStyle ?? widget.borderStyle ?? 'solid'
+  }
+  const tableBorders = {
+    top: visibleBorder(widget.tableBorderTop ?? tableDefault),
+    right: visibleBorder(widget.tableBorderRight ?? tableDefault),
+    bottom: visibleBorder(widget.tableBorderBottom ?? tableDefault),
+    left: visibleBorder(widget.tableBorderLeft ?? tableDefault)
+  }
+
+  // 被合并单元格覆盖的位置
+  const covered = rows.map(() => new Array(widget.cols).fill(false))
+  const cellBorderLines: Array<() => void> = []
+
+  rows.forEach((row, rowIndex) => {
+    for (let col = 0; col < widget.cols; col++) {
+      if (covered[rowIndex][col]) continue
+      const cell = row.cells[col] ?? { content: '' }
+      const rowSpan = Math.max(1, Math.min(cell.rowSpan || 1, rows.length - rowIndex))
+      const colSpan = Math.max(1, Math.min(cell.colSpan || 1, widget.cols - col))
+      for (let r = rowIndex; r < rowIndex + rowSpan; r++) {
+        for (let c = col; c < col + colSpan; c++) covered[r][c] = true
+      }
+
+      const cellBox: Box = {
+        x: columnOffsets[col],
+        y: rowOffsets[rowIndex],
+        width: columnWidths.slice(col, col + colSpan).reduce((sum, value) => sum + value, 0),
+        height: rowSizes.slice(rowIndex, rowIndex + rowSpan).reduce((sum, value) => sum + value, 0)
+      }
+      const isHeader = row.dataIndex === null
+
+      fillRect(pdf, cellBox, cell.backgroundColor || (isHeader ? '#f5f5f5' : undefined))
+      drawTextBlock(
+        pdf,
+        getCellText(widget, row, col, cell, item, reader),
+        {
+          x: cellBox.x + px(8),
+          y: cellBox.y + px(4),
+          width: cellBox.width - px(16),
+          height: cellBox.height - px(8)
+        },
+        {
+          fontFamily: cell.fontFamily,
+          fontSize: cell.fontSize || 12,
+          fontWeight: cell.fontWeight || (isHeader ? 'bold' : 'normal'),
+          color: cell.color || '#000000',
+          letterSpacing: cell.letterSpacing,
+          textAlign: cell.textAlign || 'left',
+          verticalAlign: cell.verticalAlign || 'middle'
+        }
+      )
+
+      // 外边缘单元格在表格外框可见时不绘制对应边，避免覆盖外框样式
+      const side = (own: BorderStyle | undefined, touchesEdge: boolean, edge?: BorderStyle) => {
+        if (touchesEdge && edge) return undefined
+        return visibleBorder(own ?? cellDefault)
+      }
+      const borders = {
+        top: side(cell.borderTop, rowIndex === 0, tableBorders.top),
+        right: side(cell.borderRight, col + colSpan === widget.cols, tableBorders.right),
+        bottom: side(cell.borderBottom, rowIndex + rowSpan === rows.length, tableBorders.bottom),
+        left: side(cell.borderLeft, col === 0, tableBorders.left)
+      }
+      // 单元格边框居中压在网格线上（border-collapse）
+      cellBorderLines.push(() => {
+        const { x, y, width, height: h } = cellBox
+        if (borders.top) strokeLine(pdf, [x, y], [x + width, y], borders.top)
+        if (borders.bottom) strokeLine(pdf, [x, y + h], [x + width, y + h], borders.bottom)
+        if (borders.left) strokeLine(pdf, [x, y], [x, y + h], borders.left)
+        if (borders.right) strokeLine(pdf, [x + width, y], [x + width, y + h], borders.right)
+      })
+    }
+  })
+
+  // 先画完所有底色和文字，再画网格线，避免被相邻单元格底色遮挡
+  cellBorderLines.forEach(draw => draw())
+  strokeBoxBorders(pdf, { ...box, height }, tableBorders)
+}
+
+// ==================== 页面 ====================
+
+function renderHeaderFooter(pdf: jsPDF, paperSize: PaperSize, variables?: PageVariables) {
+  // 页眉页脚在装订线之间居中
+  const left = paperSize.gutterLeft || 0
+  const width = paperSize.width - left - (paperSize.gutterRight || 0)
+  const boxHeight = px(HEADER_FOOTER_BOX_PX)
+  const style: TextStyle = {
+    fontFamily: DEFAULT_FONT_FAMILY,
+    fontSize: 12,
+    color: '#666666',
+    textAlign: 'center',
+    verticalAlign: 'middle'
+  }
+  if (paperSize.header) {
+    const header = resolvePageVariables(paperSize.header, variables)
+    drawTextBlock(pdf, header, { x: left, y: 0, width, height: boxHeight }, style)
+  }
+  if (paperSize.footer) {
+    drawTextBlock(
+      pdf,
+      resolvePageVariables(paperSize.footer, variables),
+      { x: left, y: paperSize.height - boxHeight, width, height: boxHeight },
+      style
+    )
+  }
+}
+
+/**
+ * 水印：与预览一致，在四周留白 40px、间距 20px 的 4×5 网格中各放置一份旋转文字
+ */
+function renderWatermark(pdf: jsPDF, paperSize: PaperSize) {
+  const watermark = paperSize.watermark
+  if (!watermark?.text) return
+  const color = parseColor(watermark.color) ?? { r: 0, g: 0, b: 0, a: 1 }
+  const padding = px(40)
+  const gap = px(20)
+  const cellWidth = (paperSize.width - padding * 2 - gap * 3) / 4
+  const cellHeight = (paperSize.height - padding * 2 - gap * 4) / 5
+  const fontSize = px(watermark.fontSize)
+  // CSS rotate 为顺时针，jsPDF angle 为逆时针
+  const radians = (watermark.angle * Math.PI) / 180
+  const cos = Math.cos(radians)
+  const sin = Math.sin(radians)
+
+  setPdfFont(pdf, DEFAULT_FONT_FAMILY, true)
+  pdf.setFontSize(watermark.fontSize * 0.75)
+  const textWidth = pdf.getTextWidth(watermark.text)
+
+  withOpacity(pdf, watermark.opacity * color.a, () => {
+    pdf.setTextColor(color.r, color.g, color.b)
+    for (let row = 0; row < 5; row++) {
+      for (let col = 0; col < 4; col++) {
+        const centerX = padding + col * (cellWidth + gap) + cellWidth / 2
+        const centerY = padding + row * (cellHeight + gap) + cellHeight / 2
+        // 以格子中心为旋转中心，反推旋转后文字基线起点
+        const shift = fontSize * BASELINE_SHIFT
+        const x = centerX - (cos * textWidth) / 2 - sin * shift
+        const y = centerY - (sin * textWidth) / 2 + cos * shift
+        pdf.text(watermark.text, x, y, { angle: -watermark.angle })
+      }
+    }
+  })
+}
+
+async function renderWidget(
+  pdf: jsPDF,
+  item: PdfPageItem,
+  getReader?: PdfReaderResolver,
+  variables?: PageVariables
+) {
+  const { widget } = item
+  const reader = getItemReader(item, getReader)
+  const box: Box = { x: widget.x, y: item.topInPage, width: widget.width, height: widget.height }
+  switch (widget.type) {
+    case 'text':
+      renderText(pdf, widget, box, item, reader, variables)
+      break
+    case 'image':
+      await renderImage(pdf, widget, box)
+      break
+    case 'table':
+      renderTable(pdf, widget, box, item, reader)
+      break
+    case 'barcode':
+      renderBarcode(pdf, widget, box, item, reader)
+      break
+    case 'qrcode':
+      renderMatrixCode(pdf, widget, box, item, reader)
+      break
+    case 'line':
+      renderLine(pdf, widget, box)
+      break
+    case 'rect':
+      renderRect(pdf, widget, box)
+      break
+  }
+}
+
+/**
+ * 将一页组件绘制到 PDF 当前页：水印与页眉页脚在最底层，组件按 zIndex 叠放
+ */
+export async function renderPdfPage(
+  pdf: jsPDF,
+  paperSize: PaperSize,
+  items: PdfPageItem[],
+  getReader?: PdfReaderResolver,
+  variables?: PageVariables
+) {
+  renderWatermark(pdf, paperSize)
+  renderHeaderFooter(pdf, paperSize, variables)
+  const ordered = items
+    .map((item, index) => ({ item, index }))
+    .sort((a, b) => a.item.widget.zIndex - b.item.widget.zIndex || a.index - b.index)
+  for (const { item } of ordered) {
+    await renderWidget(pdf, item, getReader, variables)
+  }
+}
+
+/**
+ * 统计各页实际绘制的文字及其字体，与绘制逻辑使用相同的取值规则，用于生成字体子集
+ */
+export function collectPdfFontUsage(
+  paperSize: PaperSize,
+  pages: PdfPageItem[][],
+  getReader?: PdfReaderResolver,
+  pageVariables?: PageVariables[]
+): FontUsage {
+  const usage: FontUsage = new Map()
+  useText(usage, DEFAULT_FONT_FAMILY, paperSize.watermark?.text ?? '')
+
+  pages.forEach((page, pageIndex) => {
+    const variables = pageVariables?.[pageIndex]
+    useText(
+      usage,
+      DEFAULT_FONT_FAMILY,
+      resolvePageVariables(`${paperSize.header ?? ''}${paperSize.footer ?? ''}`, variables)
+    )
+    page.forEach(item => {
+      const { widget } = item
+      const reader = getItemReader(item, getReader)
+      switch (widget.type) {
+        case 'text':
+          useText(usage, widget.fontFamily, getTextContent(widget, item, reader, variables))
+          break
+        case 'table':
+          getPageTableRows(widget, item, reader).forEach(row => {
+            for (let col = 0; col < widget.cols; col++) {
+              const cell = row.cells[col] ?? { content: '' }
+              useText(usage, cell.fontFamily, getCellText(widget, row, col, cell, item, reader))
+            }
+          })
+          break
+        case 'barcode': {
+          const result = encodeBarcodeWidget(widget, item, reader)
+          if ('error' in result) useText(usage, DEFAULT_FONT_FAMILY, result.error.join(''))
+          break
+        }
+        case 'qrcode': {
+          const box: Box = { x: 0, y: 0, width: widget.width, height: widget.height }
+          const result = encodeMatrixCodeWidget(widget, box, item, reader)
+          if ('error' in result) useText(usage, DEFAULT_FONT_FAMILY, result.error.join(''))
+          break
+        }
+      }
+    })
+  })
+  return usage
+}
@@ -0,0 +1,570 @@
+import type { QRCodeWidget } from '@/types'
+
+export type QRErrorCorrectionLevel = NonNullable<QRCodeWidget['errorCorrectionLevel']>
+
+export type QRMode = 'numeric' | 'alphanumeric' | 'byte' | 'kanji'
+
+export const QR_DEFAULT_ERROR_CORRECTION_LEVEL: QRErrorCorrectionLevel = 'M'
+
+/**
+ * 二维码矩阵
+ * modules[y][x] 为 true 表示深色模块，不含静区
+ */
+export interface QRMatrix {
+  version: number
+  size: number
+  mode: QRMode
+  mask: number
+  errorCorrectionLevel: QRErrorCorrectionLevel
+  modules: boolean[][]
+}
+
+// 按 [纠错级别][版本] 索引，版本从 1 开始（下标 0 占位）
+// prettier-ignore
+const ECC_CODEWORDS_PER_BLOCK: Record<QRErrorCorrectionLevel, number[]> = {
+  L: [-1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  M: [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28],
+  Q: [-1, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28, 26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  H: [-1, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28, 26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30]
+}
+
+// prettier-ignore
+const NUM_ERROR_CORRECTION_BLOCKS: Record<QRErrorCorrectionLevel, number[]> = {
+  L: [-1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25],
+  M: [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49],
+  Q: [-1, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23, 23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68],
+  H: [-1, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25, 25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77, 81]
+}
+
+// 格式信息中的纠错级别编码
+const ECL_FORMAT_BITS: Record<QRErrorCorrectionLevel, number> = { L: 1, M: 0, Q: 3, H: 2 }
+
+const MODE_INDICATOR: Record<QRMode, number> = {
+  numeric: 0x1,
+  alphanumeric: 0x2,
+  byte: 0x4,
+  kanji: 0x8
+}
+
+// 字符计数指示符位数，分别对应版本 1-9 / 10-26 / 27-40
+const CHAR_COUNT_BITS: Record<QRMode, [number, number, number]> = {
+  numeric: [10, 12, 14],
+  alphanumeric: [9, 11, 13],
+  byte: [8, 16, 16],
+  kanji: [8, 10, 12]
+}
+
+const ALPHANUMERIC_CHARSET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ $%*+-./:'
+
+const MIN_VERSION = 1
+const MAX_VERSION = 40
+
+// ---------------- 数据编码 ----------------
+
+class BitBuffer {
+  bits: number[] = []
+
+  append(value: number, length: number) {
+    for (let i = length - 1; i >= 0; i--) {
+      this.bits.push((value >>> i) & 1)
+    }
+  }
+}
+
+let shiftJisTable: Map<string, number> | null = null
+
+/**
+ * 懒加载 Unicode → Shift JIS 映射表（仅包含二维码汉字模式可编码的双字节区间）
+ * 浏览器不支持 shift_jis 解码时返回空表，此时汉字统一走字节模式
+ */
+function getShiftJisTable(): Map<string, number> {
+  if (shiftJisTable) return shiftJisTable
+  shiftJisTable = new Map()
+  let decoder: TextDecoder
+  try {
+    decoder = new TextDecoder('shift_jis', { fatal: true })
+  } catch {
+    return shiftJisTable
+  }
+
+  const leadRanges: Array<[number, number]> = [
+    [0x81, 0x9f],
+    [0xe0, 0xeb]
+  ]
+  for (const [leadStart, leadEnd] of leadRanges) {
+    for (let lead = leadStart; lead <= leadEnd; lead++) {
+      for (let trail = 0x40; trail <= 0xfc; trail++) {
+        if (trail === 0x7f) continue
+        const code = (lead << 8) | trail
+        if (code < 0x8140 || (code > 0x9ffc && code < 0xe040) || code > 0xebbf) continue
+        try {
+          const char = decoder.decode(new Uint8Array([lead, trail]))
+          if (char.length === 1 && !shiftJisTable.has(char)) {
+            shiftJisTable.set(char, code)
+          }
+        } catch {
+          // 未定义的码位
+        }
+      }
+    }
+  }
+  return shiftJisTable
+}
+
+function utf8Bytes(text: string): number[] {
+  return Array.from(new TextEncoder().encode(text))
+}
+
+/**
+ * 选择能容纳全部内容的最紧凑模式
+ */
+function detectMode(text: string): QRMode {
+  if (/^[0-9]*$/.test(text)) return 'numeric'
+  if (Array.from(text).every(char => ALPHANUMERIC_CHARSET.includes(char))) return 'alphanumeric'
+  const table = getShiftJisTable()
+  if (table.size > 0 && Array.from(text).every(char => table.has(char))) return 'kanji'
+  return 'byte'
+}
+
+function appendData(buffer: BitBuffer, text: string, mode: QRMode) {
+  switch (mode) {
+    case 'numeric':
+      for (let i = 0; i < text.length; i += 3) {
+        const chunk = text.substring(i, i + 3)
+        buffer.append(parseInt(chunk, 10), chunk.length * 3 + 1)
+      }
+      break
+    case 'alphanumeric':
+      for (let i = 0; i < text.length; i += 2) {
+        const first = ALPHANUMERIC_CHARSET.indexOf(text[i])
+        if (i + 1 < text.length) {
+          buffer.append(first * 45 + ALPHANUMERIC_CHARSET.indexOf(text[i + 1]), 11)
+        } else {
+          buffer.append(first, 6)
+        }
+      }
+      break
+    case 'kanji': {
+      const table = getShiftJisTable()
+      for (const char of text) {
+        let code = table.get(char)!
+        code -= code <= 0x9ffc ? 0x8140 : 0xc140
+        buffer.append((code >>> 8) * 0xc0 + (code & 0xff), 13)
+      }
+      break
+    }
+    case 'byte':
+      for (const byte of utf8Bytes(text)) {
+        buffer.append(byte, 8)
+      }
+      break
+  }
+}
+
+function charCount(text: string, mode: QRMode): number {
+  if (mode === 'byte') return utf8Bytes(text).length
+  if (mode === 'kanji') return Array.from(text).length
+  return text.length
+}
+
+function charCountBits(mode: QRMode, version: number): number {
+  return CHAR_COUNT_BITS[mode][version <= 9 ? 0 : version <= 26 ? 1 : 2]
+}
+
+// ---------------- 版本与容量 ----------------
+
+function getAlignmentPositions(version: number): number[] {
+  if (version === 1) return []
+  const size = version * 4 + 17
+  const count = Math.floor(version / 7) + 2
+  const step = Math.floor((version * 8 + count * 3 + 5) / (count * 4 - 4)) * 2
+  const result = [6]
+  for (let pos = size - 7; result.length < count; pos -= step) {
+    result.splice(1, 0, pos)
+  }
+  return result
+}
+
+// 除功能图形外可用于存放数据与纠错码的模块数
+function getNumRawDataModules(version: number): number {
+  let result = (16 * version + 128) * version + 64
+  if (version >= 2) {
+    const count = Math.floor(version / 7) + 2
+    result -= (25 * count - 10) * count - 55
+    if (version >= 7) result -= 36
+  }
+  return result
+}
+
+function getNumDataCodewords(version: number, ecl: QRErrorCorrectionLevel): number {
+  return (
+    Math.floor(getNumRawDataModules(version) / 8) -
+    ECC_CODEWORDS_PER_BLOCK[ecl][version] * NUM_ERROR_CORRECTION_BLOCKS[ecl][version]
+  )
+}
+
+// ---------------- Reed-Solomon ----------------
+
+function gfMultiply(x: number, y: number): number {
+  let z = 0
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d)
+    z ^= ((y >>> i) & 1) * x
+  }
+  return z
+}
+
+function reedSolomonDivisor(degree: number): number[] {
+  const result: number[] = new Array(degree - 1).fill(0).concat([1])
+  let root = 1
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = gfMultiply(result[j], root)
+      if (j + 1 < result.length) result[j] ^= result[j + 1]
+    }
+    root = gfMultiply(root, 0x02)
+  }
+  return result
+}
+
+function reedSolomonRemainder(data: number[], divisor: number[]): number[] {
+  const result = divisor.map(() => 0)
+  for (const byte of data) {
+    const factor = byte ^ result.shift()!
+    result.push(0)
+    divisor.forEach((coef, i) => {
+      result[i] ^= gfMultiply(coef, factor)
+    })
+  }
+  return result
+}
+
+// 分块计算纠错码并交织
+function addEccAndInterleave(
+  data: number[],
+  version: number,
+  ecl: QRErrorCorrectionLevel
+): number[] {
+  const numBlocks = NUM_ERROR_CORRECTION_BLOCKS[ecl][version]
+  const blockEccLen = ECC_CODEWORDS_PER_BLOCK[ecl][version]
+  const rawCodewords = Math.floor(getNumRawDataModules(version) / 8)
+  const numShortBlocks = numBlocks - (rawCodewords % numBlocks)
+  const shortBlockLen = Math.floor(rawCodewords / numBlocks)
+
+  const divisor = reedSolomonDivisor(blockEccLen)
+  const blocks: number[][] = []
+  for (let i = 0, k = 0; i < numBlocks; i++) {
+    const dataLen = shortBlockLen - blockEccLen + (i < numShortBlocks ? 0 : 1)
+    const block = data.slice(k, k + dataLen)
+    k += dataLen
+    const ecc = reedSolomonRemainder(block, divisor)
+    if (i < numShortBlocks) block.push(0)
+    blocks.push(block.concat(ecc))
+  }
+
+  const result: number[] = []
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      // 短块在数据区末尾补的占位字节不参与交织
+      if (i !== shortBlockLen - blockEccLen || j >= numShortBlocks) {
+        result.push(block[i])
+      }
+    })
+  }
+  return result
+}
+
+// ---------------- 矩阵构造 ----------------
+
+class QRBuilder {
+  size: number
+  modules: boolean[][]
+  isFunction: boolean[][]
+
+  constructor(public version: number) {
+    this.size = version * 4 + 17
+    this.modules = Array.from({ length: this.size }, () => new Array(this.size).fill(false))
+    this.isFunction = Array.from({ length: this.size }, () => new Array(this.size).fill(false))
+  }
+
+  setFunction(x: number, y: number, dark: boolean) {
+    this.modules[y][x] = dark
+    this.isFunction[y][x] = true
+  }
+
+  drawFunctionPatterns() {
+    const size = this.size
+    // 定时图形
+    for (let i = 0; i < size; i++) {
+      this.setFunction(6, i, i % 2 === 0)
+      this.setFunction(i, 6, i % 2 === 0)
+    }
+    // 三个位置探测图形（含分隔符）
+    this.drawFinder(3, 3)
+    this.drawFinder(size - 4, 3)
+    this.drawFinder(3, size - 4)
+    // 校正图形，跳过与探测图形重叠的三个角
+    const positions = getAlignmentPositions(this.version)
+    const last = positions.length - 1
+    positions.forEach((x, i) => {
+      positions.forEach((y, j) => {
+        if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return
+        this.drawAlignment(x, y)
+      })
+    })
+    // 先占位格式信息，掩码确定后再写入
+    this.drawFormatBits('M', 0)
+    this.drawVersion()
+  }
+
+  drawFinder(cx: number, cy: number) {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const x = cx + dx
+        const y = cy + dy
+        if (x < 0 || x >= this.size || y < 0 || y >= this.size) continue
+        const dist = Math.max(Math.abs(dx), Math.abs(dy))
+        this.setFunction(x, y, dist !== 2 && dist !== 4)
+      }
+    }
+  }
+
+  drawAlignment(cx: number, cy: number) {
+    for (let dy = -2; dy <= 2; dy++) {
+      for (let dx = -2; dx <= 2; dx++) {
+        this.setFunction(cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1)
+      }
+    }
+  }
+
+  drawFormatBits(ecl: QRErrorCorrectionLevel, mask: number) {
+    const data = (ECL_FORMAT_BITS[ecl] << 3) | mask
+    let rem = data
+    for (let i = 0; i < 10; i++) {
+      rem = (rem << 1) ^ ((rem >>> 9) * 0x537)
+    }
+    const bits = ((data << 10) | rem) ^ 0x5412
+    const bit = (i: number) => ((bits >>> i) & 1) !== 0
+    const size = this.size
+
+    // 左上角
+    for (let i = 0; i <= 5; i++) this.setFunction(8, i, bit(i))
+    this.setFunction(8, 7, bit(6))
+    this.setFunction(8, 8, bit(7))
+    this.setFunction(7, 8, bit(8))
+    for (let i = 9; i < 15; i++) this.setFunction(14 - i, 8, bit(i))
+    // 右上角与左下角
+    for (let i = 0; i < 8; i++) this.setFunction(size - 1 - i, 8, bit(i))
+    for (let i = 8; i < 15; i++) this.setFunction(8, size - 15 + i, bit(i))
+    // 固定深色模块
+    this.setFunction(8, size - 8, true)
+  }
+
+  drawVersion() {
+    if (this.version < 7) return
+    let rem = this.version
+    for (let i = 0; i < 12; i++) {
+      rem = (rem << 1) ^ ((rem >>> 11) * 0x1f25)
+    }
+    const bits = (this.version << 12) | rem
+    for (let i = 0; i < 18; i++) {
+      const dark = ((bits >>> i) & 1) !== 0
+      const a = this.size - 11 + (i % 3)
+      const b = Math.floor(i / 3)
+      this.setFunction(a, b, dark)
+      this.setFunction(b, a, dark)
+    }
+  }
+
+  drawCodewords(codewords: number[]) {
+    const size = this.size
+    let i = 0
+    // 从右下角开始，两列一组之字形排布，跳过竖直定时图形所在列
+    for (let right = size - 1; right >= 1; right -= 2) {
+      if (right === 6) right = 5
+      for (let vert = 0; vert < size; vert++) {
+        for (let j = 0; j < 2; j++) {
+          const x = right - j
+          const upward = ((right + 1) & 2) === 0
+          const y = upward ? size - 1 - vert : vert
+          if (!this.isFunction[y][x] && i < codewords.length * 8) {
+            this.modules[y][x] = ((codewords[i >>> 3] >>> (7 - (i & 7))) & 1) !== 0
+            i++
+          }
+        }
+      }
+    }
+  }
+
+  applyMask(mask: number) {
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        if (this.isFunction[y][x]) continue
+        if (maskHit(mask, x, y)) {
+          this.modules[y][x] = !this.modules[y][x]
+        }
+      }
+    }
+  }
+
+  penaltyScore(): number {
+    const size = this.size
+    const modules = this.modules
+    let result = 0
+
+    const line = (get: (i: number) => boolean) => {
+      // 规则 1：同色连续 5 个及以上
+      let runColor = get(0)
+      let runLength = 1
+      for (let i = 1; i < size; i++) {
+        if (get(i) === runColor) {
+          runLength++
+          if (runLength === 5) result += 3
+          else if (runLength > 5) result++
+        } else {
+          runColor = get(i)
+          runLength = 1
+        }
+      }
+      // 规则 3：类似探测图形的 1:1:3:1:1 序列且一侧有 4 个浅色模块
+      for (let i = 0; i + 11 <= size; i++) {
+        const seq = Array.from({ length: 11 }, (_, k) => get(i + k))
+        if (matchesPattern(seq, FINDER_LIKE) || matchesPattern(seq, FINDER_LIKE_REVERSED)) {
+          result += 40
+        }
+      }
+    }
+
+    for (let y = 0; y < size; y++) line(x => modules[y][x])
+    for (let x = 0; x < size; x++) line(y => modules[y][x])
+
+    // 规则 2：2x2 同色块
+    for (let y = 0; y < size - 1; y++) {
+      for (let x = 0; x < size - 1; x++) {
+        const color = modules[y][x]
+        if (
+          color === modules[y][x + 1] &&
+          color === modules[y + 1][x] &&
+          color === modules[y + 1][x + 1]
+        ) {
+          result += 3
+        }
+      }
+    }
+
+    // 规则 4：深色模块比例偏离 50%
+    let dark = 0
+    for (const row of modules) {
+      for (const cell of row) if (cell) dark++
+    }
+    const total = size * size
+    const k = Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1
+    result += Math.max(k, 0) * 10
+
+    return result
+  }
+}
+
+const FINDER_LIKE = [true, false, true, true, true, false, true, false, false, false, false]
+const FINDER_LIKE_REVERSED = [...FINDER_LIKE].reverse()
+
+function matchesPattern(seq: boolean[], pattern: boolean[]): boolean {
+  return seq.every((value, i) => value === pattern[i])
+}
+
+function maskHit(mask: number, x: number, y: number): boolean {
+  switch (mask) {
+    case 0:
+      return (x + y) % 2 === 0
+    case 1:
+      return y % 2 === 0
+    case 2:
+      return x % 3 === 0
+    case 3:
+      return (x + y) % 3 === 0
+    case 4:
+      return (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0
+    case 5:
+      return ((x * y) % 2) + ((x * y) % 3) === 0
+    case 6:
+      return (((x * y) % 2) + ((x * y) % 3)) % 2 === 0
+    default:
+      return (((x + y) % 2) + ((x * y) % 3)) % 2 === 0
+  }
+}
+
+/**
+ * 将文本编码为二维码矩阵
+ * 自动选择数字/字母数字/汉字/字节（UTF-8）模式与最小可用版本，内容过长时抛出错误
+ */
+export function encodeQRCode(
+  text: string,
+  errorCorrectionLevel: QRErrorCorrectionLevel = QR_DEFAULT_ERROR_CORRECTION_LEVEL
+): QRMatrix {
+  if (text === '') {
+    throw new Error('二维码内容不能为空')
+  }
+  const ecl = errorCorrectionLevel
+  const mode = detectMode(text)
+  const count = charCount(text, mode)
+
+  let version = MIN_VERSION
+  let buffer: BitBuffer | null = null
+  for (; version <= MAX_VERSION; version++) {
+    const countBits = charCountBits(mode, version)
+    if (count >= 1 << countBits) continue
+    const candidate = new BitBuffer()
+    candidate.append(MODE_INDICATOR[mode], 4)
+    candidate.append(count, countBits)
+    appendData(candidate, text, mode)
+    if (candidate.bits.length <= getNumDataCodewords(version, ecl) * 8) {
+      buffer = candidate
+      break
+    }
+  }
+  if (!buffer) {
+    throw new Error(`二维码内容过长，当前纠错级别 ${ecl} 下无法容纳，请缩短内容或降低纠错级别`)
+  }
+
+  // 终止符、字节对齐与填充字节
+  const capacityBits = getNumDataCodewords(version, ecl) * 8
+  buffer.append(0, Math.min(4, capacityBits - buffer.bits.length))
+  buffer.append(0, (8 - (buffer.bits.length % 8)) % 8)
+  for (let pad = 0xec; buffer.bits.length < capacityBits; pad ^= 0xec ^ 0x11) {
+    buffer.append(pad, 8)
+  }
+
+  const dataCodewords: number[] = []
+  for (let i = 0; i < buffer.bits.length; i += 8) {
+    dataCodewords.push(buffer.bits.slice(i, i + 8).reduce((acc, bit) => (acc << 1) | bit, 0))
+  }
+
+  const builder = new QRBuilder(version)
+  builder.drawFunctionPatterns()
+  builder.drawCodewords(addEccAndInterleave(dataCodewords, version, ecl))
+
+  // 依次尝试 8 种掩码，选择惩罚分最低者
+  let bestMask = 0
+  let minPenalty = Infinity
+  for (let mask = 0; mask < 8; mask++) {
+    builder.applyMask(mask)
+    builder.drawFormatBits(ecl, mask)
+    const penalty = builder.penaltyScore()
+    if (penalty < minPenalty) {
+      bestMask = mask
+      minPenalty = penalty
+    }
+    builder.applyMask(mask) // 异或两次即撤销
+  }
+  builder.applyMask(bestMask)
+  builder.drawFormatBits(ecl, bestMask)
+
+  return {
+    version,
+    size: builder.size,
+    mode,
+    mask: bestMask,
+    errorCorrectionLevel: ecl,
+    modules: builder.modules
+  }
+}
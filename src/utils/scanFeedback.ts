@@ -0,0 +1,44 @@
+/**
+ * 扫码打印的提示音：打印为一声短音，重复扫描为两声短音，未找到为一声低沉的长音，
+ * 扫码枪旁的操作员不看屏幕也能分辨结果
+ */
+
+export type ScanFeedback = 'success' | 'duplicate' | 'notFound'
+
+interface Tone {
+  frequency: number // 赫兹
+  duration: number // 秒
+}
+
+const TONES: Record<ScanFeedback, Tone[]> = {
+  success: [{ frequency: 1320, duration: 0.12 }],
+  duplicate: [
+    { frequency: 880, duration: 0.1 },
+    { frequency: 880, duration: 0.1 }
+  ],
+  notFound: [{ frequency: 220, duration: 0.5 }]
+}
+
+// 两声之间的间隔（秒）
+const TONE_GAP = 0.08
+
+const VOLUME = 0.2
+
+let audioContext: AudioContext | null = null
+
+export function playScanTone(feedback: ScanFeedback) {
+  if (typeof AudioContext === 'undefined') return
+  if (!audioContext) audioContext = new AudioContext()
+  const context = audioContext
+  let time = context.currentTime
+  TONES[feedback].forEach(({ frequency, duration }) => {
+    const oscillator = context.createOscillator()
+    const gain = context.createGain()
+    oscillator.frequency.value = frequency
+    gain.gain.value = VOLUME
+    oscillator.connect(gain).connect(context.destination)
+    oscillator.start(time)
+    oscillator.stop(time + duration)
+    time += duration + TONE_GAP
+  })
+}
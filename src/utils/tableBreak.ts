@@ -0,0 +1,152 @@
+import type { MergedRange, TableWidget } from '@/types'
+import { getFooterRowCount } from '@/utils/tableFooter'
+
+/**
+ * 表格跨页分割的分页规则：合并的行放在同一页、断开处前后至少保留的行数、指定列的值变化时强制分页。
+ * 行号均为表格的完整行号（含表头，不含表尾），“在第 row 行之后断开”表示 row 为本页的最后一行
+ */
+
+export interface TableBreakRules {
+  keepTogether: [number, number][] // 需要放在同一页的行范围（含首尾），按起始行排序且互不重叠
+  forcedBreaks: number[] // 在这些行之后强制分页，按行号升序
+  minRowsBefore: number
+  minRowsAfter: number
+}
+
+export interface TableBreakReader {
+  getColumnData(columnName: string): (string | number)[]
+  getMergedRanges(columnName: string): MergedRange[]
+}
+
+/**
+ * 按表格设置与数据生成分页规则
+ * @param bodyRows 表头与数据区的总行数（不含表尾）
+ * @param dataRows 分组打印时表格读取的数据行（原始行号）
+ */
+export function getTableBreakRules(
+  widget: TableWidget,
+  reader: TableBreakReader,
+  bodyRows: number,
+  dataRows?: number[]
+): TableBreakRules {
+  const headerCount = Math.max(0, Math.min(widget.headerRows ?? 0, widget.rows))
+  const dataRowCount = Math.max(bodyRows - headerCount, 0)
+  const sourceRows = dataRows ?? Array.from({ length: dataRowCount }, (_, i) => i)
+  const rules: TableBreakRules = {
+    keepTogether: [],
+    forcedBreaks: [],
+    minRowsBefore: Math.max(widget.minRowsBeforeBreak ?? 1, 1),
+    minRowsAfter: Math.max(widget.minRowsAfterBreak ?? 1, 1)
+  }
+
+  if (widget.keepMergedRows) {
+    const bodyTemplate = widget.cells.slice(headerCount, widget.rows - getFooterRowCount(widget))
+    const keep = (start: number, end: number) => {
+      const last = Math.min(end, bodyRows - 1)
+      if (last > start) rules.keepTogether.push([start, last])
+    }
+
+    // 数据行按数据区的模板行循环生成，模板行中跨行的单元格随之重复
+    if (bodyTemplate.length > 0) {
+      for (let i = 0; i < dataRowCount; i++) {
+        bodyTemplate[i % bodyTemplate.length].forEach(cell => {
+          if ((cell?.rowSpan ?? 1) > 1) keep(headerCount + i, headerCount + i + cell.rowSpan! - 1)
+        })
+      }
+    }
+
+    // 数据中的合并单元格：按原始行号找到合并范围在表格中的首尾行
+    const positions = new Map<number, number>()
+    sourceRows.slice(0, dataRowCount).forEach((row, i) => positions.set(row, i))
+    getBoundColumns(widget, bodyTemplate).forEach(column =>
+      reader.getMergedRanges(column).forEach(range => {
+        let first = Infinity
+        let last = -1
+        for (let row = range.startRow; row <= range.endRow; row++) {
+          const position = positions.get(row)
+          if (position === undefined) continue
+          first = Math.min(first, position)
+          last = Math.max(last, position)
+        }
+        if (last >= 0) keep(headerCount + first, headerCount + last)
+      })
+    )
+    rules.keepTogether = mergeRanges(rules.keepTogether)
+  }
+
+  if (widget.breakColumn) {
+    const data = reader.getColumnData(widget.breakColumn)
+    const length = Math.min(dataRowCount, dataRows ? dataRows.length : data.length)
+    for (let i = 1; i < length; i++) {
+      if (String(data[sourceRows[i]] ?? '') !== String(data[sourceRows[i - 1]] ?? '')) {
+        rules.forcedBreaks.push(headerCount + i - 1)
+      }
+    }
+  }
+
+  return rules
+}
+
+/**
+ * 按分页规则确定本部分的结束行：先在强制分页处断开，再从按空间计算的结束行向前找满足规则的行；
+ * 没有满足规则的行时返回 undefined，由调用方决定换页或按空间断开
+ * @param endRow 按剩余空间计算的结束行
+ */
+export function findTableBreak(
+  startRow: number,
+  endRow: number,
+  bodyRows: number,
+  headerCount: number,
+  rules: TableBreakRules
+): number | undefined {
+  const firstDataRow = Math.max(startRow, headerCount)
+  const forced = rules.forcedBreaks[lowerBound(rules.forcedBreaks, firstDataRow)]
+  if (forced !== undefined && forced < endRow) return forced
+  if (endRow >= bodyRows - 1) return endRow
+
+  // 从满足断开后行数的最后一行向前找，落在合并范围内时直接跳到范围之前
+  let row = Math.min(endRow, bodyRows - 1 - rules.minRowsAfter)
+  while (row >= firstDataRow) {
+    const index = lowerBound(rules.keepTogether, row + 1, ([start]) => start) - 1
+    const group = rules.keepTogether[index]
+    if (group && row < group[1]) {
+      row = group[0] - 1
+      continue
+    }
+    return row - firstDataRow + 1 >= rules.minRowsBefore ? row : undefined
+  }
+  return undefined
+}
+
+// 第一个不小于 value 的元素位置，list 按 key 升序
+function lowerBound<T>(list: T[], value: number, key: (item: T) => number = Number): number {
+  let low = 0
+  let high = list.length
+  while (low < high) {
+    const middle = (low + high) >> 1
+    if (key(list[middle]) < value) low = middle + 1
+    else high = middle
+  }
+  return low
+}
+
+// 按起始行排序并合并重叠的范围，相邻但不重叠的范围之间仍可断开
+function mergeRanges(ranges: [number, number][]): [number, number][] {
+  const sorted = [...ranges].sort((a, b) => a[0] - b[0])
+  const result: [number, number][] = []
+  sorted.forEach(([start, end]) => {
+    const last = result[result.length - 1]
+    if (last && start <= last[1]) last[1] = Math.max(last[1], end)
+    else result.push([start, end])
+  })
+  return result
+}
+
+// 数据区读取的列：列绑定与数据区单元格绑定
+function getBoundColumns(widget: TableWidget, bodyTemplate: TableWidget['cells']): string[] {
+  const columns = [
+    ...Object.values(widget.columnBindings ?? {}),
+    ...bodyTemplate.flatMap(row => row.map(cell => cell?.dataSource ?? ''))
+  ]
+  return [...new Set(columns.filter(Boolean))]
+}
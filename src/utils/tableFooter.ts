@@ -0,0 +1,121 @@
+import type { TableAggregate, TableCell, TableFooterScope, TableWidget, ValueFormat } from '@/types'
+import type { ColumnReader } from '@/utils/expression'
+import {
+  aggregateValues,
+  getExpressionColumns,
+  hasTemplateExpression,
+  parseTemplate,
+  renderAggregateTemplate
+} from '@/utils/expression'
+import { formatValue, getTableCellFormat } from '@/utils/format'
+
+/**
+ * 表尾（统计行）：表格最后 footerRows 行，不随数据循环，
+ * 单元格按 aggregate 统计绑定列，或用 {{SUM(列名)}} 等表达式自定义统计内容
+ */
+
+export const TABLE_AGGREGATE_OPTIONS: { label: string; value: TableAggregate }[] = [
+  { label: '求和', value: 'sum' },
+  { label: '平均值', value: 'avg' },
+  { label: '计数', value: 'count' },
+  { label: '最小值', value: 'min' },
+  { label: '最大值', value: 'max' }
+]
+
+export const TABLE_FOOTER_SCOPE_OPTIONS: { label: string; value: TableFooterScope }[] = [
+  { label: '合计（全部数据，显示在最后一页）', value: 'total' },
+  { label: '本页小计（每页显示）', value: 'page' }
+]
+
+export interface TableFooterReader {
+  getColumnData: ColumnReader
+  formatColumnValue(columnName: string, value: string | number, format?: ValueFormat): string
+}
+
+/**
+ * 表尾行数：简单表格不支持表尾，且不会占用表头行
+ */
+export function getFooterRowCount(
+  widget: Pick<TableWidget, 'rows' | 'headerRows' | 'footerRows' | 'tableMode'>
+): number {
+  if (widget.tableMode === 'simple') return 0
+  const headerCount = Math.max(0, Math.min(widget.headerRows ?? 0, widget.rows))
+  return Math.max(0, Math.min(widget.footerRows ?? 0, widget.rows - headerCount))
+}
+
+/**
+ * 第 footerIndex 个表尾行的统计范围
+ */
+export function getFooterScope(
+  widget: Pick<TableWidget, 'footerScopes'>,
+  footerIndex: number
+): TableFooterScope {
+  return widget.footerScopes?.[footerIndex] ?? 'total'
+}
+
+/**
+ * 统计范围为本页小计与合计的表尾行数，用于分页时预留空间
+ */
+export function getFooterRowCounts(widget: TableWidget): Record<TableFooterScope, number> {
+  const counts: Record<TableFooterScope, number> = { page: 0, total: 0 }
+  for (let i = 0; i < getFooterRowCount(widget); i++) counts[getFooterScope(widget, i)]++
+  return counts
+}
+
+function getFooterColumns(widget: TableWidget): string[] {
+  const footerCount = getFooterRowCount(widget)
+  const columns = new Set<string>()
+  widget.cells.slice(widget.rows - footerCount, widget.rows).forEach(row =>
+    row.forEach((cell, col) => {
+      if (cell.aggregate) {
+        const column = cell.dataSource || widget.columnBindings?.[col]
+        if (column) columns.add(column)
+      } else if (hasTemplateExpression(cell.content)) {
+        parseTemplate(cell.content ?? '').forEach(segment => {
+          if (segment.type === 'expression' && segment.node) {
+            getExpressionColumns(segment.node).forEach(column => columns.add(column))
+          }
+        })
+      }
+    })
+  )
+  return [...columns]
+}
+
+/**
+ * 表尾统计的数据行数：与表格展开的数据行一致取列绑定的最大长度，
+ * 没有列绑定时取表尾引用的数据列的最大长度
+ */
+export function getTableDataRowCount(widget: TableWidget, readColumn: ColumnReader): number {
+  const bindings = Object.values(widget.columnBindings || {}).filter(Boolean)
+  const columns = bindings.length > 0 ? bindings : getFooterColumns(widget)
+  return Math.max(0, ...columns.map(column => readColumn(column).length))
+}
+
+/**
+ * 表尾单元格的显示内容
+ * @param rows 参与统计的数据行下标
+ */
+export function getFooterCellText(
+  widget: TableWidget,
+  col: number,
+  cell: TableCell,
+  rows: number[],
+  reader: TableFooterReader
+): string {
+  if (!cell.aggregate) {
+    return renderAggregateTemplate(cell.content ?? '', reader.getColumnData, rows, cell.format)
+  }
+  const column = cell.dataSource || widget.columnBindings?.[col]
+  if (!column) return ''
+  const data = reader.getColumnData(column)
+  const value = aggregateValues(
+    cell.aggregate,
+    rows.map(row => data[row] ?? null)
+  )
+  // 计数结果与列的数据类型无关，不套用列格式
+  if (cell.aggregate === 'count') return formatValue(value as number, cell.format)
+  if (typeof value !== 'number') return ''
+  const format = getTableCellFormat(widget, col, cell)
+  return reader.formatColumnValue(column, Number(value.toPrecision(12)), format)
+}
@@ -0,0 +1,102 @@
+import type {
+  DataColumnType,
+  DataSource,
+  MergedRange,
+  TemplateDataSource,
+  TemplateField,
+  ValueFormat,
+  Widget
+} from '@/types'
+
+/**
+ * 读取单个数据源的接口，由 datasource store 的 createReader 创建
+ */
+export interface DataSourceReader {
+  getDataSource(): DataSource | null
+  getColumnNames(): string[] // 可绑定的名称：模板字段与未被字段占用的数据列
+  hasColumn(columnName: string): boolean // 列名或字段能否读取到数据列
+  getColumnData(columnName: string): (string | number)[]
+  getMergedRanges(columnName: string): MergedRange[] // 数据中合并单元格的行范围
+  getColumnValue(columnName: string, rowIndex: number): string | number
+  getColumnType(columnName: string): DataColumnType
+  formatColumnValue(
+    columnName: string,
+    value: string | number | undefined,
+    format?: ValueFormat
+  ): string
+  getFormattedColumnValue(columnName: string, rowIndex: number, format?: ValueFormat): string
+}
+
+/**
+ * 读取数据时应用的模板字段与字段映射
+ */
+export interface DataSourceReaderOptions {
+  mapping?: Record<string, string>
+  fields?: TemplateField[]
+}
+
+/**
+ * 组件绑定的数据源名称，不支持数据绑定的组件返回 undefined
+ */
+export function getWidgetSource(widget: Widget): string | undefined {
+  return 'source' in widget ? widget.source : undefined
+}
+
+/**
+ * 按名称查找模板数据源，未指定名称时为第一个数据源
+ */
+export function getTemplateSource(
+  sources: TemplateDataSource[] | undefined,
+  name?: string
+): TemplateDataSource | undefined {
+  if (!name) return sources?.[0]
+  return sources?.find(source => source.name === name)
+}
+
+/**
+ * 数据源名称对应的数据文件：
+ * 模板未声明数据源时返回 undefined（旧模板，读取当前数据源）；
+ * 未指定名称时使用第一个数据源；名称未声明时返回 null，不读取任何数据
+ */
+export function resolveSourceFile(
+  sources: TemplateDataSource[] | undefined,
+  name?: string
+): string | null | undefined {
+  if (!sources?.length) return undefined
+  return getTemplateSource(sources, name)?.fileName ?? null
+}
+
+/**
+ * 按数据文件名创建模板数据源：名称取文件名去掉扩展名，重名时追加序号
+ */
+export function createTemplateDataSource(
+  fileName: string,
+  sources: TemplateDataSource[]
+): TemplateDataSource {
+  const base = fileName.replace(/\.[^.]+$/, '') || fileName
+  const names = new Set(sources.map(source => source.name))
+  let name = base
+  for (let i = 2; names.has(name); i++) name = `${base}${i}`
+  return { name, fileName }
+}
+
+/**
+ * 规范化模板数据源：去掉名称为空或重复的项；
+ * 旧模板没有声明数据源时，把批量打印的数据文件作为唯一的数据源
+ */
+export function normalizeTemplateDataSources(
+  sources?: TemplateDataSource[] | null,
+  batchPrintFile?: string
+): TemplateDataSource[] {
+  if (!sources?.length) {
+    return batchPrintFile ? [createTemplateDataSource(batchPrintFile, [])] : []
+  }
+  const names = new Set<string>()
+  return sources
+    .map(source => ({ ...source, name: source.name.trim() }))
+    .filter(source => {
+      if (!source.name || names.has(source.name)) return false
+      names.add(source.name)
+      return true
+    })
+}
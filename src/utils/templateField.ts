@@ -0,0 +1,115 @@
+import type { DataColumn, TemplateField } from '@/types'
+
+/**
+ * 模板字段与字段映射：组件绑定模板字段，各数据源把字段映射到实际的数据列，
+ * 映射建议按名称相似度匹配，数据文件改了列名时也能找到对应的列
+ */
+
+// 名称相似度低于该值时不作为映射建议
+const SUGGESTION_THRESHOLD = 0.5
+
+// 比较名称时忽略大小写、空白与常见分隔符、括号
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[\s_\-.:：、/\\()（）[\]【】]/g, '')
+}
+
+function getBigrams(text: string): string[] {
+  if (text.length < 2) return [text]
+  return Array.from({ length: text.length - 1 }, (_, i) => text.slice(i, i + 2))
+}
+
+// Dice 系数：两组片段中相同片段的占比，重复片段按次数计算
+function getDiceCoefficient(a: string[], b: string[]): number {
+  const counts = new Map<string, number>()
+  a.forEach(item => counts.set(item, (counts.get(item) ?? 0) + 1))
+  let common = 0
+  b.forEach(item => {
+    const count = counts.get(item) ?? 0
+    if (count > 0) {
+      common++
+      counts.set(item, count - 1)
+    }
+  })
+  return (2 * common) / (a.length + b.length)
+}
+
+/**
+ * 两个名称的相似度（0~1）：相同为 1，包含关系按长度比例计分，
+ * 其余取双字片段与单字的 Dice 系数，使 收货人 与 收件人 这类改了一个字的列名也能匹配
+ */
+export function getNameSimilarity(a: string, b: string): number {
+  const x = normalizeName(a)
+  const y = normalizeName(b)
+  if (!x || !y) return 0
+  if (x === y) return 1
+  if (x.includes(y) || y.includes(x)) {
+    return 0.6 + (0.3 * Math.min(x.length, y.length)) / Math.max(x.length, y.length)
+  }
+  return Math.max(
+    getDiceCoefficient(getBigrams(x), getBigrams(y)),
+    getDiceCoefficient([...x], [...y]) * 0.9
+  )
+}
+
+/**
+ * 为未映射的字段推荐数据列：按相似度从高到低分配，每列只推荐给一个字段，
+ * 相似度相同时优先类型一致的列；已映射的字段与列保持不变
+ * @returns 字段名 -> 推荐的数据列名
+ */
+export function suggestFieldMapping(
+  fields: TemplateField[],
+  columns: DataColumn[],
+  mapping: Record<string, string> = {}
+): Record<string, string> {
+  const usedColumns = new Set(Object.values(mapping))
+  const candidates: { field: string; column: string; score: number }[] = []
+  fields.forEach(field => {
+    if (mapping[field.name]) return
+    columns.forEach(column => {
+      if (usedColumns.has(column.name)) return
+      const type = column.typeOverride ?? column.type
+      const score =
+        getNameSimilarity(field.name, column.name) + (field.type && field.type === type ? 0.01 : 0)
+      if (score >= SUGGESTION_THRESHOLD) {
+        candidates.push({ field: field.name, column: column.name, score })
+      }
+    })
+  })
+  candidates.sort((a, b) => b.score - a.score)
+
+  const suggestions: Record<string, string> = {}
+  candidates.forEach(({ field, column }) => {
+    if (suggestions[field] || usedColumns.has(column)) return
+    suggestions[field] = column
+    usedColumns.add(column)
+  })
+  return suggestions
+}
+
+/**
+ * 按数据列创建模板字段，类型取列的实际类型，示例值取第一个非空值
+ */
+export function createFieldsFromColumns(columns: DataColumn[]): TemplateField[] {
+  return columns.map(column => {
+    const sample = column.data.find(value => String(value ?? '').trim() !== '')
+    return {
+      name: column.name,
+      type: column.typeOverride ?? column.type,
+      sample: sample === undefined ? undefined : String(sample)
+    }
+  })
+}
+
+/**
+ * 规范化模板字段：去掉名称为空或重复的字段
+ */
+export function normalizeTemplateFields(fields?: TemplateField[] | null): TemplateField[] {
+  const names = new Set<string>()
+  return (fields ?? [])
+    .map(field => ({ ...field, name: field.name.trim() }))
+    .filter(field => {
+      if (!field.name || names.has(field.name)) return false
+      names.add(field.name)
+      return true
+    })
+}